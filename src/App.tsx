@@ -6,6 +6,9 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import Stories from "./pages/Stories";
 import Reading from "./pages/Reading";
+import StoryEditor from "./pages/StoryEditor";
+import StoryGenerator from "./pages/StoryGenerator";
+import RunningRecord from "./pages/RunningRecord";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -19,7 +22,11 @@ const App = () => (
         <Routes>
           <Route path="/" element={<Index />} />
           <Route path="/stories" element={<Stories />} />
+          <Route path="/stories/new" element={<StoryEditor />} />
+          <Route path="/stories/generate" element={<StoryGenerator />} />
+          <Route path="/stories/:id/edit" element={<StoryEditor />} />
           <Route path="/read/:id" element={<Reading />} />
+          <Route path="/records/:id" element={<RunningRecord />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
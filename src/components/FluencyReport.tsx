@@ -0,0 +1,76 @@
+import type { FluencySummary } from "@/lib/fluency";
+
+interface FluencyReportProps {
+  summary: FluencySummary;
+  words: string[];
+}
+
+const formatDuration = (milliseconds: number) => {
+  const seconds = Math.round(milliseconds / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}min ${seconds % 60}s` : `${seconds}s`;
+};
+
+const formatSeconds = (milliseconds: number) =>
+  `${(milliseconds / 1000).toLocaleString("pt-BR", { maximumFractionDigits: 1 })} s`;
+
+// Fluency shown with the completion message: words correct per minute,
+// reading time, pace of each sentence and the longest pauses
+export const FluencyReport = ({ summary, words }: FluencyReportProps) => {
+  const fastestSentence = Math.max(1, ...summary.sentences.map((sentence) => sentence.wordsPerMinute));
+
+  return (
+    <div className="mb-6 space-y-4 text-left">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="p-4 rounded-3xl bg-card shadow-card text-center">
+          <p className="font-display font-bold text-3xl text-primary">{summary.wordsCorrectPerMinute}</p>
+          <p className="text-xs font-semibold text-muted-foreground">palavras certas por minuto</p>
+        </div>
+        <div className="p-4 rounded-3xl bg-card shadow-card text-center">
+          <p className="font-display font-bold text-3xl text-secondary">{formatDuration(summary.readingTime)}</p>
+          <p className="text-xs font-semibold text-muted-foreground">{summary.wordsCorrect} palavras certas</p>
+        </div>
+      </div>
+
+      {summary.sentences.length > 1 && (
+        <div className="p-4 rounded-3xl bg-card shadow-card">
+          <h3 className="font-display font-bold mb-3">Ritmo por frase</h3>
+          <ul className="space-y-2">
+            {summary.sentences.map((sentence) => (
+              <li key={sentence.sentenceIndex}>
+                <div className="flex justify-between gap-3 text-xs">
+                  <span className="truncate text-muted-foreground">
+                    {words.slice(sentence.firstWordIndex, sentence.lastWordIndex + 1).join(" ")}
+                  </span>
+                  <span className="font-semibold whitespace-nowrap">{sentence.wordsPerMinute} ppm</span>
+                </div>
+                <div className="h-2 mt-1 rounded-full bg-muted overflow-hidden">
+                  <div
+                    className="h-full rounded-full bg-primary"
+                    style={{ width: `${(sentence.wordsPerMinute / fastestSentence) * 100}%` }}
+                  />
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {summary.longestPauses.length > 0 && (
+        <div className="p-4 rounded-3xl bg-card shadow-card">
+          <h3 className="font-display font-bold mb-2">Pausas mais longas</h3>
+          <ul className="space-y-1 text-sm">
+            {summary.longestPauses.map((pause) => (
+              <li key={pause.wordIndex} className="flex justify-between gap-3">
+                <span>
+                  antes de <span className="font-semibold">“{words[pause.wordIndex]}”</span>
+                </span>
+                <span className="text-muted-foreground">{formatSeconds(pause.duration)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,32 @@
+import { Fragment } from "react";
+import type { TextRange } from "@/lib/storySearch";
+
+interface HighlightedTextProps {
+  text: string;
+  ranges?: TextRange[];
+}
+
+export const HighlightedText = ({ text, ranges = [] }: HighlightedTextProps) => {
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: JSX.Element[] = [];
+  let cursor = 0;
+
+  ranges.forEach((range, i) => {
+    if (range.start > cursor) {
+      parts.push(<Fragment key={`text-${i}`}>{text.slice(cursor, range.start)}</Fragment>);
+    }
+    parts.push(
+      <mark key={`mark-${i}`} className="bg-warning/40 text-inherit rounded px-0.5">
+        {text.slice(range.start, range.end)}
+      </mark>
+    );
+    cursor = range.end;
+  });
+
+  if (cursor < text.length) {
+    parts.push(<Fragment key="text-end">{text.slice(cursor)}</Fragment>);
+  }
+
+  return <>{parts}</>;
+};
@@ -1,14 +1,22 @@
 import { cn } from "@/lib/utils";
+import type { HintLevel } from "@/lib/hesitation";
 
 export type WordStatus = "pending" | "current" | "correct" | "incorrect";
 
 interface ReadingWordProps {
   word: string;
+  // Punctuation around the word, drawn plainly so it never takes the word's status
+  leading?: string;
+  trailing?: string;
   status: WordStatus;
+  // Strongest hint given while the child is stuck on the word
+  hint?: HintLevel;
+  // Shown above the word from the syllables hint on
+  syllables?: string[];
   onClick?: () => void;
 }
 
-export const ReadingWord = ({ word, status, onClick }: ReadingWordProps) => {
+export const ReadingWord = ({ word, leading, trailing, status, hint, syllables, onClick }: ReadingWordProps) => {
   const statusClasses: Record<WordStatus, string> = {
     pending: "text-muted-foreground/50",
     current: "text-primary font-extrabold scale-110 bg-primary/10 px-2 py-1 rounded-xl",
@@ -17,15 +25,25 @@ export const ReadingWord = ({ word, status, onClick }: ReadingWordProps) => {
   };
 
   return (
-    <span
-      onClick={onClick}
-      className={cn(
-        "inline-block mx-1 my-1 transition-all duration-300 ease-out cursor-pointer",
-        "hover:scale-105",
-        statusClasses[status]
+    <span className="relative inline-block mx-1 my-1 whitespace-nowrap">
+      {leading && <span className="text-muted-foreground">{leading}</span>}
+      {hint && hint !== "pulse" && syllables && syllables.length > 1 && (
+        <span className="absolute -top-5 left-1/2 -translate-x-1/2 text-sm font-bold text-accent animate-fade-in">
+          {syllables.join("·")}
+        </span>
       )}
-    >
-      {word}
+      <span
+        onClick={onClick}
+        className={cn(
+          "inline-block transition-all duration-300 ease-out cursor-pointer",
+          "hover:scale-105",
+          statusClasses[status],
+          hint && "animate-pulse"
+        )}
+      >
+        {word}
+      </span>
+      {trailing && <span className="text-muted-foreground">{trailing}</span>}
     </span>
   );
 };
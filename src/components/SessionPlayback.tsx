@@ -0,0 +1,103 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { cn } from "@/lib/utils";
+import type { ReadingSession } from "@/lib/runningRecord";
+import { audioOffsetAt, loadSessionAudio, type RecordedSegment } from "@/lib/sessionAudio";
+
+interface SessionPlaybackProps {
+  session: ReadingSession;
+}
+
+// Recording of the session with its words below; tapping a word read right
+// plays the recording from where it was read, and the word being heard is
+// highlighted while it plays
+export const SessionPlayback = ({ session }: SessionPlaybackProps) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [audioUrl, setAudioUrl] = useState<string>();
+  const [segments, setSegments] = useState<RecordedSegment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [playingWordIndex, setPlayingWordIndex] = useState<number>();
+
+  useEffect(() => {
+    let url: string | undefined;
+    let cancelled = false;
+    loadSessionAudio(session.id).then((saved) => {
+      if (cancelled) return;
+      if (saved) {
+        url = URL.createObjectURL(saved.audio);
+        setAudioUrl(url);
+        setSegments(saved.segments);
+      }
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [session.id]);
+
+  // Milliseconds into the recording at which each word began, by word index
+  const wordOffsets = useMemo(
+    () =>
+      Object.entries(session.wordTimes)
+        .map(([wordIndex, { start }]) => ({ wordIndex: Number(wordIndex), offset: audioOffsetAt(segments, start) }))
+        .sort((a, b) => a.offset - b.offset),
+    [session, segments]
+  );
+
+  const seekTo = (wordIndex: number) => {
+    const audio = audioRef.current;
+    const word = wordOffsets.find((offset) => offset.wordIndex === wordIndex);
+    if (!audio || !word) return;
+    audio.currentTime = word.offset / 1000;
+    audio.play().catch((error) => console.warn("Could not play session audio:", error));
+  };
+
+  const handleTimeUpdate = () => {
+    const position = (audioRef.current?.currentTime ?? 0) * 1000;
+    const heard = wordOffsets.filter((word) => word.offset <= position);
+    setPlayingWordIndex(heard[heard.length - 1]?.wordIndex);
+  };
+
+  if (isLoading) return null;
+
+  if (!audioUrl) {
+    return <p className="text-sm text-muted-foreground">Esta leitura não foi gravada.</p>;
+  }
+
+  const readWords = session.words.slice(session.startWordIndex, session.endWordIndex);
+
+  return (
+    <div className="space-y-3">
+      <audio
+        ref={audioRef}
+        src={audioUrl}
+        controls
+        className="w-full"
+        onTimeUpdate={handleTimeUpdate}
+        onEnded={() => setPlayingWordIndex(undefined)}
+      />
+      <div className="p-4 rounded-3xl bg-card shadow-card leading-loose">
+        {readWords.map((word, offset) => {
+          const wordIndex = session.startWordIndex + offset;
+          const wasRead = wordIndex in session.wordTimes;
+          return (
+            <button
+              key={wordIndex}
+              type="button"
+              disabled={!wasRead}
+              onClick={() => seekTo(wordIndex)}
+              className={cn(
+                "mx-0.5 px-1 rounded-lg text-lg transition-colors",
+                wasRead ? "hover:bg-primary/10" : "text-muted-foreground",
+                wordIndex === playingWordIndex && "bg-primary text-primary-foreground"
+              )}
+            >
+              {word}
+            </button>
+          );
+        })}
+      </div>
+      <p className="text-xs text-muted-foreground">Toque em uma palavra para ouvir a criança lendo a partir dela.</p>
+    </div>
+  );
+};
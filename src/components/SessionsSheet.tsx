@@ -0,0 +1,72 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ClipboardList } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { getSessionsForStory } from "@/lib/readingSessions";
+import { summarizeSession } from "@/lib/runningRecord";
+
+interface SessionsSheetProps {
+  storyId: string;
+}
+
+// Earlier readings of the story, finished or left halfway, each opening its
+// running record
+export const SessionsSheet = ({ storyId }: SessionsSheetProps) => {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  // Read when the sheet opens, so a reading saved meanwhile shows up
+  const sessions = open ? getSessionsForStory(storyId) : [];
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Leituras anteriores">
+          <ClipboardList className="w-5 h-5" />
+        </Button>
+      </SheetTrigger>
+
+      <SheetContent side="bottom" className="rounded-t-3xl max-h-[85vh] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="font-display">Leituras anteriores</SheetTitle>
+          <SheetDescription>Toque em uma leitura para ver o registro.</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-4 space-y-2">
+          {sessions.length === 0 && (
+            <p className="text-sm text-muted-foreground">Esta história ainda não foi lida.</p>
+          )}
+          {sessions.map((session) => {
+            const summary = summarizeSession(session);
+            return (
+              <button
+                key={session.id}
+                type="button"
+                onClick={() => navigate(`/records/${session.id}`)}
+                className="w-full p-3 rounded-2xl bg-card shadow-card text-left flex items-center justify-between gap-3"
+              >
+                <span>
+                  <span className="block font-display font-bold">
+                    {new Date(session.startedAt).toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" })}
+                  </span>
+                  <span className="block text-xs text-muted-foreground">
+                    {summary.wordsRead} palavras lidas
+                    {!session.endedAt && " · leitura interrompida"}
+                  </span>
+                </span>
+                <span className="font-display font-bold text-primary">{Math.round(summary.accuracy * 100)}%</span>
+              </button>
+            );
+          })}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -1,14 +1,26 @@
 import { cn } from "@/lib/utils";
-import { BookOpen, Clock, Star } from "lucide-react";
+import { BookOpen, Clock, Pencil, Star } from "lucide-react";
+import type { StoryDifficulty } from "@/lib/story";
+import type { TextRange } from "@/lib/storySearch";
+import { HighlightedText } from "./HighlightedText";
+import { ProgressBar } from "./ProgressBar";
 
 interface StoryCardProps {
   title: string;
   description: string;
-  difficulty: "easy" | "medium" | "hard";
+  difficulty: StoryDifficulty;
   duration: string;
+  wordCount?: number;
   imageEmoji: string;
   completed?: boolean;
+  // Share of the story already read, 0-100, shown for stories left halfway
+  progress?: number;
+  // Search matches to highlight in the title and description
+  titleHighlights?: TextRange[];
+  descriptionHighlights?: TextRange[];
   onClick?: () => void;
+  // Shows an edit shortcut, used for stories written in the editor
+  onEdit?: () => void;
   className?: string;
 }
 
@@ -17,9 +29,14 @@ export const StoryCard = ({
   description,
   difficulty,
   duration,
+  wordCount,
   imageEmoji,
   completed = false,
+  progress,
+  titleHighlights,
+  descriptionHighlights,
   onClick,
+  onEdit,
   className,
 }: StoryCardProps) => {
   const difficultyConfig = {
@@ -42,7 +59,7 @@ export const StoryCard = ({
 
   const config = difficultyConfig[difficulty];
 
-  return (
+  const card = (
     <button
       onClick={onClick}
       className={cn(
@@ -66,7 +83,7 @@ export const StoryCard = ({
         <div className="flex-1 min-w-0">
           <div className="flex items-start justify-between gap-2 mb-1">
             <h3 className="font-display font-bold text-lg text-foreground truncate">
-              {title}
+              <HighlightedText text={title} ranges={titleHighlights} />
             </h3>
             {completed && (
               <span className="flex-shrink-0 text-success text-xl">✓</span>
@@ -74,7 +91,7 @@ export const StoryCard = ({
           </div>
 
           <p className="text-sm text-muted-foreground line-clamp-2 mb-3">
-            {description}
+            <HighlightedText text={description} ranges={descriptionHighlights} />
           </p>
 
           {/* Meta info */}
@@ -99,11 +116,35 @@ export const StoryCard = ({
             {/* Word count indicator */}
             <span className="inline-flex items-center gap-1 text-xs text-muted-foreground">
               <BookOpen className="w-3 h-3" />
-              Ler
+              {wordCount !== undefined ? `${wordCount} palavras` : "Ler"}
             </span>
           </div>
+
+          {progress !== undefined && (
+            <div className="mt-3 flex items-center gap-2">
+              <ProgressBar progress={progress} showLabel={false} className="flex-1" />
+              <span className="text-xs font-bold text-primary">{Math.round(progress)}%</span>
+            </div>
+          )}
         </div>
       </div>
     </button>
   );
+
+  if (!onEdit) return card;
+
+  // The edit shortcut sits on top of the card, since buttons cannot be nested
+  return (
+    <div className="relative">
+      {card}
+      <button
+        type="button"
+        onClick={onEdit}
+        aria-label={`Editar ${title}`}
+        className="absolute bottom-3 right-3 w-9 h-9 rounded-xl bg-muted text-muted-foreground flex items-center justify-center transition-colors hover:text-primary focus:outline-none focus:ring-2 focus:ring-primary"
+      >
+        <Pencil className="w-4 h-4" />
+      </button>
+    </div>
+  );
 };
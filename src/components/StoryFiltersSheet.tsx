@@ -0,0 +1,127 @@
+import { SlidersHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { cn } from "@/lib/utils";
+import type { StoryDifficulty } from "@/lib/story";
+import {
+  countSheetFilters,
+  LENGTH_LABELS,
+  SORT_LABELS,
+  STATUS_LABELS,
+  type CatalogFilters,
+  type StoryLengthFilter,
+  type StorySort,
+  type StoryStatusFilter,
+} from "@/lib/storyCatalog";
+
+const DIFFICULTY_LABELS: Record<StoryDifficulty, string> = {
+  easy: "Fácil",
+  medium: "Médio",
+  hard: "Difícil",
+};
+
+interface StoryFiltersSheetProps {
+  filters: CatalogFilters;
+  onChange: (changes: Partial<CatalogFilters>) => void;
+}
+
+interface OptionGroupProps<T extends string> {
+  title: string;
+  options: Record<T, string>;
+  isSelected: (value: T) => boolean;
+  onSelect: (value: T) => void;
+}
+
+const OptionGroup = <T extends string>({ title, options, isSelected, onSelect }: OptionGroupProps<T>) => (
+  <section>
+    <h3 className="font-display font-bold mb-2">{title}</h3>
+    <div className="flex flex-wrap gap-2">
+      {(Object.entries(options) as [T, string][]).map(([value, label]) => (
+        <Button
+          key={value}
+          type="button"
+          size="sm"
+          variant={isSelected(value) ? "default" : "outline"}
+          onClick={() => onSelect(value)}
+        >
+          {label}
+        </Button>
+      ))}
+    </div>
+  </section>
+);
+
+export const StoryFiltersSheet = ({ filters, onChange }: StoryFiltersSheetProps) => {
+  const activeCount = countSheetFilters(filters);
+
+  const toggleDifficulty = (difficulty: StoryDifficulty) =>
+    onChange({
+      difficulties: filters.difficulties.includes(difficulty)
+        ? filters.difficulties.filter((value) => value !== difficulty)
+        : [...filters.difficulties, difficulty],
+    });
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Filtros">
+          <SlidersHorizontal className="w-5 h-5" />
+          {activeCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-primary text-primary-foreground text-[10px] font-bold flex items-center justify-center">
+              {activeCount}
+            </span>
+          )}
+        </Button>
+      </SheetTrigger>
+
+      <SheetContent side="bottom" className="rounded-t-3xl">
+        <SheetHeader>
+          <SheetTitle className="font-display">Filtros</SheetTitle>
+          <SheetDescription>Escolha que histórias mostrar e em que ordem.</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-4 space-y-5">
+          <OptionGroup
+            title="Dificuldade"
+            options={DIFFICULTY_LABELS}
+            isSelected={(value) => filters.difficulties.includes(value)}
+            onSelect={toggleDifficulty}
+          />
+          <OptionGroup<StoryStatusFilter>
+            title="Estado"
+            options={STATUS_LABELS}
+            isSelected={(value) => filters.status === value}
+            onSelect={(value) => onChange({ status: filters.status === value ? undefined : value })}
+          />
+          <OptionGroup<StoryLengthFilter>
+            title="Tamanho"
+            options={LENGTH_LABELS}
+            isSelected={(value) => filters.length === value}
+            onSelect={(value) => onChange({ length: filters.length === value ? undefined : value })}
+          />
+          <OptionGroup<StorySort>
+            title="Ordenar por"
+            options={SORT_LABELS}
+            isSelected={(value) => filters.sort === value}
+            onSelect={(value) => onChange({ sort: value })}
+          />
+
+          <Button
+            variant="ghost"
+            className={cn("w-full", activeCount === 0 && "invisible")}
+            onClick={() => onChange({ difficulties: [], status: undefined, length: undefined, sort: "relevance" })}
+          >
+            Limpar filtros
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
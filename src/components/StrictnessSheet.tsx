@@ -0,0 +1,209 @@
+import { Settings2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { cn } from "@/lib/utils";
+import { useStrictness } from "@/hooks/useStrictness";
+import { useHesitationSettings } from "@/hooks/useHesitationSettings";
+import { setHesitationSettings } from "@/lib/hesitation";
+import {
+  profileForStory,
+  setChildProfile,
+  setCustomOptions,
+  setStoryProfile,
+  STRICTNESS_LABELS,
+  type MatchingOptions,
+  type StrictnessProfile,
+} from "@/lib/strictness";
+
+interface StrictnessSheetProps {
+  storyId: string;
+}
+
+const PROFILES = Object.keys(STRICTNESS_LABELS) as StrictnessProfile[];
+
+const SWITCHES: { key: "phonetic" | "accentsMatter" | "allowSkipping"; label: string }[] = [
+  { key: "phonetic", label: "Aceitar palavras com o mesmo som" },
+  { key: "accentsMatter", label: "Acentos contam" },
+  { key: "allowSkipping", label: "Pode pular palavras" },
+];
+
+const SimilaritySlider = ({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}) => (
+  <div className="space-y-2">
+    <div className="flex justify-between text-sm">
+      <Label>{label}</Label>
+      <span className="font-semibold text-primary">{Math.round(value * 100)}%</span>
+    </div>
+    <Slider min={50} max={100} step={5} value={[value * 100]} onValueChange={([next]) => onChange(next / 100)} />
+  </div>
+);
+
+const SecondsSlider = ({
+  label,
+  value,
+  min,
+  max,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}) => (
+  <div className="space-y-2">
+    <div className="flex justify-between text-sm">
+      <Label>{label}</Label>
+      <span className="font-semibold text-primary">{value / 1000} s</span>
+    </div>
+    <Slider min={min} max={max} step={1} value={[value / 1000]} onValueChange={([next]) => onChange(next * 1000)} />
+  </div>
+);
+
+// Lets the grown-up pick how strict the matcher is, for the child or just this
+// story, and when hints are given
+export const StrictnessSheet = ({ storyId }: StrictnessSheetProps) => {
+  const settings = useStrictness();
+  const hesitation = useHesitationSettings();
+  const hasStoryProfile = storyId in settings.stories;
+  const profile = profileForStory(settings, storyId);
+
+  const selectProfile = (next: StrictnessProfile) => {
+    if (hasStoryProfile) setStoryProfile(storyId, next);
+    else setChildProfile(next);
+  };
+
+  const updateCustom = (changes: Partial<MatchingOptions>) => setCustomOptions(changes);
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Nível de exigência">
+          <Settings2 className="w-5 h-5" />
+        </Button>
+      </SheetTrigger>
+
+      <SheetContent side="bottom" className="rounded-t-3xl max-h-[85vh] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="font-display">Nível de exigência</SheetTitle>
+          <SheetDescription>Quanto a leitura precisa ser exata para a palavra contar.</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-4 space-y-5">
+          <div className="flex items-center justify-between gap-3">
+            <Label htmlFor="story-strictness">Só nesta história</Label>
+            <Switch
+              id="story-strictness"
+              checked={hasStoryProfile}
+              onCheckedChange={(checked) => setStoryProfile(storyId, checked ? profile : undefined)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            {PROFILES.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => selectProfile(option)}
+                className={cn(
+                  "w-full p-3 rounded-2xl bg-card shadow-card border-2 border-transparent text-left transition-all",
+                  profile === option && "border-primary"
+                )}
+              >
+                <span className="block font-display font-bold">{STRICTNESS_LABELS[option].label}</span>
+                <span className="block text-xs text-muted-foreground">{STRICTNESS_LABELS[option].description}</span>
+              </button>
+            ))}
+          </div>
+
+          {profile === "custom" && (
+            <div className="space-y-4">
+              <SimilaritySlider
+                label="Semelhança das palavras"
+                value={settings.custom.wordSimilarity}
+                onChange={(wordSimilarity) => updateCustom({ wordSimilarity })}
+              />
+              <SimilaritySlider
+                label="Semelhança das palavras curtas"
+                value={settings.custom.shortWordSimilarity}
+                onChange={(shortWordSimilarity) => updateCustom({ shortWordSimilarity })}
+              />
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <Label>Diferença de tamanho</Label>
+                  <span className="font-semibold text-primary">{settings.custom.maxLengthDifference} letras</span>
+                </div>
+                <Slider
+                  min={0}
+                  max={4}
+                  step={1}
+                  value={[settings.custom.maxLengthDifference]}
+                  onValueChange={([maxLengthDifference]) => updateCustom({ maxLengthDifference })}
+                />
+              </div>
+              {SWITCHES.map(({ key, label }) => (
+                <div key={key} className="flex items-center justify-between gap-3">
+                  <Label htmlFor={`strictness-${key}`}>{label}</Label>
+                  <Switch
+                    id={`strictness-${key}`}
+                    checked={settings.custom[key]}
+                    onCheckedChange={(checked) => updateCustom({ [key]: checked })}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-4 pt-4 border-t border-border">
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <Label htmlFor="hesitation-hints">Dicas quando a criança trava</Label>
+                <p className="text-xs text-muted-foreground">Destaca a palavra, mostra as sílabas e depois fala.</p>
+              </div>
+              <Switch
+                id="hesitation-hints"
+                checked={hesitation.enabled}
+                onCheckedChange={(enabled) => setHesitationSettings({ enabled })}
+              />
+            </div>
+            {hesitation.enabled && (
+              <>
+                <SecondsSlider
+                  label="Espera antes da primeira dica"
+                  value={hesitation.delay}
+                  min={2}
+                  max={20}
+                  onChange={(delay) => setHesitationSettings({ delay })}
+                />
+                <SecondsSlider
+                  label="Entre uma dica e outra"
+                  value={hesitation.interval}
+                  min={2}
+                  max={15}
+                  onChange={(interval) => setHesitationSettings({ interval })}
+                />
+              </>
+            )}
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -6,6 +6,8 @@ interface VoiceButtonProps {
   type: "mic" | "speaker";
   isActive?: boolean;
   isLoading?: boolean;
+  // Something went wrong; the button still retries when tapped
+  hasError?: boolean;
   onClick?: () => void;
   size?: "default" | "lg" | "xl";
   className?: string;
@@ -15,6 +17,7 @@ export const VoiceButton = ({
   type,
   isActive = false,
   isLoading = false,
+  hasError = false,
   onClick,
   size = "default",
   className,
@@ -51,6 +54,7 @@ export const VoiceButton = ({
       className={cn(
         "relative",
         isActive && type === "mic" && "animate-pulse-glow",
+        hasError && "ring-4 ring-destructive/60",
         className
       )}
     >
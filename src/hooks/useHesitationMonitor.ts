@@ -0,0 +1,39 @@
+import { useEffect, useRef, useState } from "react";
+import { HINT_LEVELS, hintDelay, type HintLevel } from "@/lib/hesitation";
+import { useHesitationSettings } from "@/hooks/useHesitationSettings";
+
+interface UseHesitationMonitorOptions {
+  // Word the child should read next
+  wordIndex: number;
+  // Hints are only given while the child is reading aloud
+  active: boolean;
+  onHint?: (level: HintLevel, wordIndex: number) => void;
+}
+
+// Watches the current word and escalates hints while it does not change:
+// returns the strongest hint given so far for it, if any
+export const useHesitationMonitor = ({ wordIndex, active, onHint }: UseHesitationMonitorOptions) => {
+  const settings = useHesitationSettings();
+  const [hint, setHint] = useState<HintLevel>();
+  const onHintRef = useRef(onHint);
+
+  useEffect(() => {
+    onHintRef.current = onHint;
+  }, [onHint]);
+
+  // Any progress, a pause or a settings change starts the wait over
+  useEffect(() => {
+    setHint(undefined);
+    if (!active || !settings.enabled) return;
+
+    const timeouts = HINT_LEVELS.map((level) =>
+      setTimeout(() => {
+        setHint(level);
+        onHintRef.current?.(level, wordIndex);
+      }, hintDelay(settings, level))
+    );
+    return () => timeouts.forEach(clearTimeout);
+  }, [wordIndex, active, settings]);
+
+  return hint;
+};
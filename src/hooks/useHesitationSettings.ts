@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from "react";
+import { getHesitationSettings, subscribeToHesitation } from "@/lib/hesitation";
+
+// Hint timing, re-rendering whenever the grown-up changes it
+export const useHesitationSettings = () => useSyncExternalStore(subscribeToHesitation, getHesitationSettings);
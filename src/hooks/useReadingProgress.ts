@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from "react";
+import { getAllProgress, subscribeToProgress } from "@/lib/readingProgress";
+
+// Progress of every story, re-rendering whenever a reading session updates it
+export const useReadingProgress = () => useSyncExternalStore(subscribeToProgress, getAllProgress);
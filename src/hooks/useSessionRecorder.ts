@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useRef } from "react";
+import type { RecordedSegment, SessionRecording } from "@/lib/sessionAudio";
+
+// Containers tried in order; Safari only records MP4
+const MIME_TYPES = ["audio/webm;codecs=opus", "audio/webm", "audio/mp4"];
+
+// Chunks are collected this often so a crash loses little audio
+const TIMESLICE = 1000;
+
+const supportedMimeType = () => MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+
+// Records the microphone while `active`, pausing in between. stopRecording()
+// ends it and resolves with the audio and the stretches of time it covers, as
+// the recorder reported them, or undefined when nothing was recorded; the next
+// activation starts a new recording.
+export const useSessionRecorder = (active: boolean) => {
+  const recorderRef = useRef<MediaRecorder>();
+  const chunksRef = useRef<Blob[]>([]);
+  const segmentsRef = useRef<RecordedSegment[]>([]);
+  // Start of the segment being recorded
+  const segmentStartRef = useRef<number>();
+  const activeRef = useRef(active);
+  // Whether a recorder is waiting for the microphone
+  const startingRef = useRef(false);
+  // Increases on every stop so a microphone granted afterwards is let go
+  const runRef = useRef(0);
+  const stoppingRef = useRef<Promise<SessionRecording | undefined>>();
+
+  const openSegment = useCallback(() => {
+    segmentStartRef.current = Date.now();
+  }, []);
+
+  const closeSegment = useCallback(() => {
+    if (segmentStartRef.current === undefined) return;
+    segmentsRef.current.push({ start: segmentStartRef.current, end: Date.now() });
+    segmentStartRef.current = undefined;
+  }, []);
+
+  const stopRecording = useCallback((): Promise<SessionRecording | undefined> => {
+    runRef.current++;
+    startingRef.current = false;
+    if (stoppingRef.current) return stoppingRef.current;
+
+    const recorder = recorderRef.current;
+    if (!recorder) return Promise.resolve(undefined);
+    recorderRef.current = undefined;
+
+    const stopping = new Promise<SessionRecording | undefined>((resolve) => {
+      recorder.onstop = () => {
+        closeSegment();
+        recorder.stream.getTracks().forEach((track) => track.stop());
+        const chunks = chunksRef.current;
+        const segments = segmentsRef.current;
+        chunksRef.current = [];
+        segmentsRef.current = [];
+        stoppingRef.current = undefined;
+        resolve(
+          chunks.length > 0 ? { audio: new Blob(chunks, { type: recorder.mimeType }), segments } : undefined
+        );
+      };
+    });
+    stoppingRef.current = stopping;
+    recorder.stop();
+    return stopping;
+  }, [closeSegment]);
+
+  useEffect(() => {
+    activeRef.current = active;
+    const recorder = recorderRef.current;
+
+    if (!active) {
+      if (recorder?.state === "recording") recorder.pause();
+      return;
+    }
+    if (recorder) {
+      if (recorder.state === "paused") recorder.resume();
+      return;
+    }
+    if (startingRef.current || typeof MediaRecorder === "undefined" || !navigator.mediaDevices?.getUserMedia) {
+      return;
+    }
+
+    startingRef.current = true;
+    const run = runRef.current;
+    navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } }).then(
+      (stream) => {
+        if (run !== runRef.current) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        startingRef.current = false;
+        const next = new MediaRecorder(stream, { mimeType: supportedMimeType() });
+        next.ondataavailable = (event) => {
+          if (event.data.size > 0) chunksRef.current.push(event.data);
+        };
+        // Seeking maps instants to the recording through these, so they follow
+        // the recorder itself rather than when it was asked to start or pause
+        next.onstart = openSegment;
+        next.onresume = openSegment;
+        next.onpause = closeSegment;
+        next.start(TIMESLICE);
+        // The microphone went off while it was being opened
+        if (!activeRef.current) next.pause();
+        recorderRef.current = next;
+        console.log(`⏺️ Recording session audio (${next.mimeType})`);
+      },
+      (error) => {
+        if (run === runRef.current) startingRef.current = false;
+        console.warn("Could not record session audio:", error);
+      }
+    );
+  }, [active, openSegment, closeSegment]);
+
+  // Let go of the microphone when the page closes
+  useEffect(() => {
+    return () => {
+      stopRecording();
+    };
+  }, [stopRecording]);
+
+  return { stopRecording };
+};
@@ -1,82 +1,84 @@
-import { useState, useCallback, useRef, useEffect } from "react";
+import { useState, useCallback, useRef, useEffect, useMemo, useReducer } from "react";
+import type { TranscriptAlternative } from "@/lib/textMatching";
+import {
+  createRecognitionEngine,
+  type RecognitionEngine,
+  type RecognitionEngineFactory,
+  type RecognitionError,
+  type RecognitionResult,
+} from "@/lib/recognitionEngine";
+import {
+  INITIAL_RECOGNITION_STATE,
+  isActiveState,
+  transition,
+  type RecognitionLifecycleEvent,
+} from "@/lib/recognitionLifecycle";
+import { rescoreAlternatives, storyVocabulary } from "@/lib/vocabularyBias";
 
 interface UseSpeechRecognitionOptions {
   language?: string;
   continuous?: boolean;
-  onResult?: (transcript: string) => void;
+  // Recognizer to listen with; the default engine when omitted
+  engine?: RecognitionEngineFactory;
+  // Words of the story and the one to read next; recognition is biased
+  // toward them (see vocabularyBias.ts)
+  expectedWords?: string[];
+  currentWordIndex?: number;
+  // Best transcript plus every alternative the recognizer returned, best first
+  onResult?: (transcript: string, alternatives: TranscriptAlternative[]) => void;
   onError?: (error: string) => void;
   onPermissionDenied?: () => void;
 }
 
-interface SpeechRecognitionEvent {
-  results: SpeechRecognitionResultList;
-  resultIndex: number;
-}
-
-interface SpeechRecognitionResultList {
-  length: number;
-  item(index: number): SpeechRecognitionResult;
-  [index: number]: SpeechRecognitionResult;
-}
+// Hypotheses requested per result; the matcher may accept any confident one
+const MAX_ALTERNATIVES = 5;
 
-interface SpeechRecognitionResult {
-  isFinal: boolean;
-  length: number;
-  item(index: number): SpeechRecognitionAlternative;
-  [index: number]: SpeechRecognitionAlternative;
-}
+// Alternatives the recognizer scored below this are dropped before rescoring
+const MIN_CONFIDENCE = 0.5;
 
-interface SpeechRecognitionAlternative {
-  transcript: string;
-  confidence: number;
-}
-
-interface SpeechRecognition extends EventTarget {
-  continuous: boolean;
-  interimResults: boolean;
-  lang: string;
-  maxAlternatives: number;
-  start(): void;
-  stop(): void;
-  abort(): void;
-  onresult: ((event: SpeechRecognitionEvent) => void) | null;
-  onerror: ((event: { error: string }) => void) | null;
-  onend: (() => void) | null;
-  onstart: (() => void) | null;
-}
+const PERMISSION_DENIED: RecognitionError = {
+  code: "not-allowed",
+  message: "Permissão do microfone negada.",
+  fatal: true,
+};
 
-declare global {
-  interface Window {
-    SpeechRecognition: new () => SpeechRecognition;
-    webkitSpeechRecognition: new () => SpeechRecognition;
-  }
-}
+// Stable default so the vocabulary is not rebuilt on every render
+const NO_WORDS: string[] = [];
 
 export const useSpeechRecognition = ({
   language = "pt-BR",
   continuous = true,
+  engine: createEngine = createRecognitionEngine,
+  expectedWords = NO_WORDS,
+  currentWordIndex = 0,
   onResult,
   onError,
   onPermissionDenied,
 }: UseSpeechRecognitionOptions = {}) => {
-  const [isListening, setIsListening] = useState(false);
+  const [state, dispatch] = useReducer(transition, INITIAL_RECOGNITION_STATE);
   const [isSupported, setIsSupported] = useState(true);
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
   const [transcript, setTranscript] = useState("");
   const [interimTranscript, setInterimTranscript] = useState("");
-  
-  const recognitionRef = useRef<SpeechRecognition | null>(null);
-  const shouldBeListeningRef = useRef(false);
-  const restartTimeoutRef = useRef<NodeJS.Timeout>();
-  const safariRestartTimeoutRef = useRef<NodeJS.Timeout>(); // Separate timeout for Safari restarts
-  const consecutiveRestartsRef = useRef(0);
-  const lastStartTimeRef = useRef<number>(0);
-  const lastResultTimeRef = useRef<number>(0); // Track last result to prevent rapid fire
-  const isSafariRef = useRef(false);
+
+  const engineRef = useRef<RecognitionEngine | null>(null);
+  // Latest state, for the permission prompt to find out it was cancelled
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  useEffect(() => {
+    if (import.meta.env.DEV) console.log(`🔁 Recognition: ${state.status}`);
+  }, [state]);
   const onResultRef = useRef(onResult);
   const onErrorRef = useRef(onError);
   const onPermissionDeniedRef = useRef(onPermissionDenied);
 
+  const vocabulary = useMemo(
+    () => storyVocabulary(expectedWords, currentWordIndex),
+    [expectedWords, currentWordIndex]
+  );
+  const vocabularyRef = useRef(vocabulary);
+
   // Keep callbacks updated
   useEffect(() => {
     onResultRef.current = onResult;
@@ -84,221 +86,72 @@ export const useSpeechRecognition = ({
     onPermissionDeniedRef.current = onPermissionDenied;
   }, [onResult, onError, onPermissionDenied]);
 
-  // Initialize recognition ONCE on mount
+  // Create the engine on mount, and again when the language or the engine
+  // changes; callbacks are read through refs so they do not rebuild it
   useEffect(() => {
-    // Check browser support
-    const SpeechRecognitionAPI = 
-      window.SpeechRecognition || window.webkitSpeechRecognition;
-    
-    if (!SpeechRecognitionAPI) {
-      setIsSupported(false);
-      console.warn("Speech Recognition API not supported in this browser");
-      return;
-    }
-
-    // Detect Safari for specific workarounds
-    const isSafari = /^((?!chrome|android).)*safari/i.test(navigator.userAgent);
-    isSafariRef.current = isSafari;
-    console.log("Browser detection - isSafari:", isSafari);
-
-    const recognition = new SpeechRecognitionAPI();
-    // Use continuous:false for ALL browsers to avoid network timeout errors
-    // We implement manual restart for consistent behavior across browsers
-    recognition.continuous = false;
-    recognition.interimResults = true;
-    recognition.lang = language;
-    recognition.maxAlternatives = 1;
-    
-    console.log("Recognition config: continuous=false (manual restart mode)");
-
-    let sessionId = 0;
-    
-    recognition.onstart = () => {
-      sessionId++;
-      const startTime = Date.now();
-      console.log(`🟢 recognition.onstart [Session ${sessionId}] at ${startTime}`);
-      setIsListening(true);
-      lastStartTimeRef.current = startTime;
-      lastResultTimeRef.current = 0; // Reset result time on new session
-      consecutiveRestartsRef.current = 0; // Reset counter on successful start
-    };
-
-    recognition.onend = () => {
-      const now = Date.now();
-      const timeSinceStart = now - lastStartTimeRef.current;
-      console.log(`🔴 recognition.onend [Session ${sessionId}] at ${now} (duration: ${timeSinceStart}ms)`);
-      setIsListening(false);
-      
-      // Auto-restart logic - UNIVERSAL for all browsers (continuous:false)
-      // This ensures consistent behavior and avoids network timeout errors
-      if (shouldBeListeningRef.current) {
-        // Check if we're in a restart loop (ended too quickly)
-        if (timeSinceStart < 1000) {
-          consecutiveRestartsRef.current++;
-          
-          // If too many quick restarts, stop to prevent infinite loop
-          if (consecutiveRestartsRef.current > 5) {
-            console.error("Too many quick restarts - stopping auto-restart");
-            shouldBeListeningRef.current = false;
-            onErrorRef.current?.("O reconhecimento de voz não está funcionando. Tente novamente.");
-            return;
-          }
-        } else {
-          consecutiveRestartsRef.current = 0;
-        }
-        
-        console.log("🔄 onend: Scheduling restart in 150ms...");
-        clearTimeout(safariRestartTimeoutRef.current);
-        safariRestartTimeoutRef.current = setTimeout(() => {
-          if (shouldBeListeningRef.current && recognitionRef.current) {
-            try {
-              console.log("🔄 onend: Restarting recognition now");
-              recognitionRef.current.start();
-            } catch (error: any) {
-              if (error.name !== "InvalidStateError") {
-                console.error("Failed to restart from onend:", error);
-              }
-            }
-          }
-        }, 150);
+    const handleResult = (result: RecognitionResult) => {
+      if (!result.isFinal) {
+        // Interim results are shown but not processed for matching
+        setInterimTranscript(result.transcript);
+        return;
       }
-    };
-
-    recognition.onresult = (event: SpeechRecognitionEvent) => {
-      const now = Date.now();
-      const timeSinceStart = now - lastStartTimeRef.current;
-      
-      console.log(`🎯 SpeechRecognition onresult fired! [Session ${sessionId}]`);
-      console.log("  resultIndex:", event.resultIndex);
-      console.log("  total results:", event.results.length);
-      console.log("  ⏱️ Time since start:", timeSinceStart + "ms");
-      console.log("  ⏱️ lastStartTimeRef:", lastStartTimeRef.current, "| now:", now);
-      
-      let finalTranscript = "";
-      let interimResult = "";
 
-      let finalConfidence = 0;
-      
-      for (let i = event.resultIndex; i < event.results.length; i++) {
-        const result = event.results[i];
-        const confidence = result[0].confidence;
-        const confidenceDisplay = confidence !== undefined ? `${(confidence * 100).toFixed(0)}%` : "N/A (Safari)";
-        console.log(`  Result[${i}]: "${result[0].transcript}" (isFinal: ${result.isFinal}, confidence: ${confidenceDisplay})`);
-        
-        if (result.isFinal) {
-          finalTranscript += result[0].transcript;
-          // Safari often doesn't provide confidence - treat undefined as 1.0 (trust it)
-          const confidenceValue = confidence !== undefined ? confidence : 1.0;
-          finalConfidence = Math.max(finalConfidence, confidenceValue);
-        } else {
-          interimResult += result[0].transcript;
-        }
+      // Only what the recognizer itself was confident about is considered
+      const confident = result.alternatives.filter((alternative) => alternative.confidence >= MIN_CONFIDENCE);
+      const confidence = result.alternatives[0]?.confidence ?? 1.0;
+      console.log(`🎤 Final transcript: "${result.transcript}" (confidence: ${(confidence * 100).toFixed(0)}%)`);
+      if (result.alternatives.length > 0 && confident.length === 0) {
+        console.log(`⚠️ REJECTED: Low confidence (minimum: ${MIN_CONFIDENCE * 100}%)`);
+        return;
       }
 
-      // Set interim transcript for display (but don't process for matching yet)
-      setInterimTranscript(interimResult);
-      
-      // Only process FINAL results for word matching
-      if (finalTranscript) {
-        const confidenceDisplay = finalConfidence === 1.0 ? "N/A (Safari default)" : `${(finalConfidence * 100).toFixed(0)}%`;
-        console.log("🎤 Final transcript from recognition:", finalTranscript);
-        console.log("🎯 Final confidence:", confidenceDisplay);
-        
-        // Cooldown removed to allow multiple words in quick succession
-        // The word matching logic and confidence threshold provide sufficient validation
-        const timeSinceLastResult = lastResultTimeRef.current > 0 
-          ? now - lastResultTimeRef.current 
-          : 9999; // First result, allow it
-        
-        console.log("⏱️ Time since last result:", timeSinceLastResult + "ms");
-        
-        // Check confidence threshold - only if Safari actually provided a confidence value
-        // Reject only if confidence is explicitly low (< 50%), not when undefined/1.0
-        if (finalConfidence < 1.0 && finalConfidence < 0.5) {
-          console.log(`⚠️ REJECTED: Low confidence ${(finalConfidence * 100).toFixed(0)}% (minimum: 50%)`);
-          return;
-        }
-        
-        console.log("✅ ACCEPTED: Passing validation, will process this word");
-        
-        // Update last result time
-        lastResultTimeRef.current = now;
-        
-        setTranscript(prev => prev + " " + finalTranscript);
-        const wordToProcess = finalTranscript.trim().toLowerCase();
-        console.log("📤 Sending to onResult:", wordToProcess);
-        onResultRef.current?.(wordToProcess);
-        
-        // For continuous:false mode (all browsers), restart after getting result
-        // Clear any existing restart timeout to prevent multiple restarts
-        clearTimeout(safariRestartTimeoutRef.current);
-        
-        // Small delay to ensure previous recognition has fully stopped
-        console.log("🔄 onresult: Scheduling auto-restart in 150ms...");
-        safariRestartTimeoutRef.current = setTimeout(() => {
-          if (shouldBeListeningRef.current && recognitionRef.current) {
-            try {
-              console.log("🔄 onresult: Auto-restarting recognition now");
-              // Only start if not already listening (prevents InvalidStateError)
-              recognitionRef.current.start();
-            } catch (e: any) {
-              // If already started, just ignore the error and continue
-              if (e.name !== "InvalidStateError") {
-                console.error("Error restarting after result:", e);
-              }
-            }
-          }
-        }, 150);
-      }
-      // Interim results are set but not processed for matching
+      // Among those, story words, and the next ones above all, win over what
+      // a generic recognizer found more likely
+      const alternatives = rescoreAlternatives(confident, vocabularyRef.current);
+      const finalTranscript = alternatives[0]?.transcript ?? result.transcript;
+
+      setInterimTranscript("");
+      setTranscript((prev) => prev + " " + finalTranscript);
+      onResultRef.current?.(finalTranscript, alternatives);
     };
 
-    recognition.onerror = (event: any) => {
-      // "aborted" errors are expected during restarts in Safari - ignore them
-      if (event.error === "aborted" && shouldBeListeningRef.current) {
-        // Restart is happening, this is expected
-        return;
-      }
-      
-      // Handle critical errors that should stop recognition
-      const criticalErrors = ["not-allowed", "audio-capture", "service-not-allowed"];
-      if (criticalErrors.includes(event.error)) {
-        console.error("Speech recognition critical error:", event.error);
-        shouldBeListeningRef.current = false;
-        clearTimeout(restartTimeoutRef.current);
-        clearTimeout(safariRestartTimeoutRef.current);
-        setIsListening(false);
-        if (event.error === "not-allowed") {
-          setHasPermission(false);
-          onPermissionDeniedRef.current?.();
-        }
-        onErrorRef.current?.(event.error);
-      } else if (event.error === "network") {
-        // Network errors are common in continuous:false mode - just log and continue
-        // The onend handler will restart automatically
-        console.warn("⚠️ Network error (non-critical) - will retry on next restart");
-      } else if (event.error !== "no-speech" && event.error !== "aborted") {
-        console.warn("Non-critical recognition error:", event.error);
-        onErrorRef.current?.(event.error);
+    const handleError = (error: RecognitionError) => {
+      if (error.fatal) dispatch({ type: "engine-failed", error });
+      if (error.code === "not-allowed") {
+        setHasPermission(false);
+        onPermissionDeniedRef.current?.();
       }
-      // "no-speech" and "aborted" errors are normal and can be ignored
+      onErrorRef.current?.(error.message ?? error.code);
     };
 
-    recognitionRef.current = recognition;
+    const engine = createEngine(
+      { language, maxAlternatives: MAX_ALTERNATIVES },
+      {
+        onStart: () => dispatch({ type: "engine-started" }),
+        onRestart: (attempt) => dispatch({ type: "engine-restarting", attempt }),
+        onEnd: () => dispatch({ type: "engine-ended" }),
+        onResult: handleResult,
+        onError: handleError,
+      }
+    );
+    engine.setVocabulary?.(vocabularyRef.current);
+    setIsSupported(engine.isSupported);
+    engineRef.current = engine;
 
     return () => {
-      // Final cleanup on unmount
-      shouldBeListeningRef.current = false;
-      clearTimeout(restartTimeoutRef.current);
-      if (recognitionRef.current) {
-        try {
-          recognitionRef.current.abort();
-        } catch (e) {
-          // Ignore errors on abort
-        }
-      }
+      // A disposed engine reports nothing more, so a running session ends here
+      engine.dispose();
+      engineRef.current = null;
+      dispatch({ type: "stop" });
     };
-  }, []); // Empty deps - only create once
+  }, [createEngine, language]);
+
+  // Hand the vocabulary to engines with a grammar hook; the others only get
+  // their alternatives rescored
+  useEffect(() => {
+    vocabularyRef.current = vocabulary;
+    engineRef.current?.setVocabulary?.(vocabulary);
+  }, [vocabulary]);
 
   // Request microphone permission explicitly
   const requestMicrophonePermission = useCallback(async (): Promise<boolean> => {
@@ -313,61 +166,39 @@ export const useSpeechRecognition = ({
     } catch (error) {
       console.error("Microphone permission denied:", error);
       setHasPermission(false);
-      onPermissionDenied?.();
+      onPermissionDeniedRef.current?.();
       return false;
     }
-  }, [onPermissionDenied]);
+  }, []);
 
   const startListening = useCallback(async () => {
-    if (!recognitionRef.current || !isSupported) return;
-    
-    try {
-      const callTime = Date.now();
-      console.log(`\n🎤🎤🎤 STARTING NEW LISTENING SESSION 🎤🎤🎤 at ${callTime}\n`);
-      
-      // Set flag that we want to be listening
-      shouldBeListeningRef.current = true;
-      
-      setTranscript("");
-      setInterimTranscript("");
-      console.log("📞 Calling recognition.start()...");
-      recognitionRef.current.start();
-    } catch (error: any) {
-      // Handle specific error types
-      if (error.name === "InvalidStateError") {
-        // Recognition is already started - this is fine, just continue
-        // Don't need to do anything, it's already listening
-        return;
-      } else if (error.name === "NotAllowedError" || error.message?.includes("permission")) {
-        shouldBeListeningRef.current = false;
-        setHasPermission(false);
-        setIsListening(false);
-        onPermissionDeniedRef.current?.();
-        onErrorRef.current?.("Permissão do microfone negada.");
-      } else {
-        shouldBeListeningRef.current = false;
-        setIsListening(false);
-        onErrorRef.current?.("Erro ao iniciar reconhecimento de voz.");
-      }
+    const engine = engineRef.current;
+    if (!engine || !isSupported) return;
+
+    console.log("\n🎤🎤🎤 STARTING NEW LISTENING SESSION 🎤🎤🎤\n");
+    setTranscript("");
+    setInterimTranscript("");
+
+    const needsPermission = engine.usesMicrophone && hasPermission !== true;
+    dispatch({ type: "start", needsPermission });
+    if (needsPermission) {
+      const granted = await requestMicrophonePermission();
+      const event: RecognitionLifecycleEvent = granted
+        ? { type: "permission-granted" }
+        : { type: "permission-denied", error: PERMISSION_DENIED };
+      dispatch(event);
+      // Denied, or stopped while the prompt was open
+      if (!granted || stateRef.current.status !== "requesting-permission") return;
     }
-  }, [isSupported]);
+    engine.start();
+  }, [isSupported, hasPermission, requestMicrophonePermission]);
 
   const stopListening = useCallback(() => {
-    if (!recognitionRef.current) return;
-    
-    const stopTime = Date.now();
-    console.log(`\n🛑 STOP LISTENING CALLED at ${stopTime}`);
-    
-    shouldBeListeningRef.current = false;
-    clearTimeout(restartTimeoutRef.current);
-    
-    try {
-      console.log("📞 Calling recognition.stop()...");
-      recognitionRef.current.stop();
-    } catch (error) {
-      console.log("⚠️ Error on stop:", error);
-      // Ignore errors on stop
-    }
+    if (!engineRef.current) return;
+
+    console.log("\n🛑 STOP LISTENING CALLED");
+    dispatch({ type: "stop" });
+    engineRef.current.stop();
   }, []);
 
   const resetTranscript = useCallback(() => {
@@ -376,7 +207,9 @@ export const useSpeechRecognition = ({
   }, []);
 
   return {
-    isListening,
+    // Where the listening session is, from idle to failed (see recognitionLifecycle.ts)
+    state,
+    isListening: isActiveState(state),
     isSupported,
     hasPermission,
     transcript,
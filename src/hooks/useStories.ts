@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from "react";
+import { getAllStories, subscribeToStories } from "@/lib/storyRepository";
+
+// Story catalog that re-renders whenever a story is saved or deleted
+export const useStories = () => useSyncExternalStore(subscribeToStories, getAllStories);
@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from "react";
+import { getStrictnessSettings, subscribeToStrictness } from "@/lib/strictness";
+
+// Strictness settings, re-rendering whenever a profile is changed
+export const useStrictness = () => useSyncExternalStore(subscribeToStrictness, getStrictnessSettings);
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { summarizeFluency } from "./fluency";
+import { createSession, type ReadingSession } from "./runningRecord";
+
+const WORDS = "O gato pulou. O muro caiu.".split(" ");
+const SENTENCE_OF_WORD = [0, 0, 0, 1, 1, 1];
+
+// Words read every second, with the microphone off from 3 s to 10 s
+const readSession = (changes: Partial<ReadingSession> = {}): ReadingSession => ({
+  ...createSession("gato", "O Gato", WORDS, 0),
+  startedAt: 0,
+  endWordIndex: 6,
+  listeningPeriods: [
+    { start: 0, end: 3000 },
+    { start: 10_000, end: 20_000 },
+  ],
+  wordTimes: {
+    0: { start: 0, end: 500 },
+    1: { start: 1000, end: 1500 },
+    2: { start: 2000, end: 2500 },
+    3: { start: 13_000, end: 13_500 },
+    4: { start: 14_000, end: 14_500 },
+    5: { start: 15_000, end: 15_000 },
+  },
+  ...changes,
+});
+
+describe("summarizeFluency", () => {
+  it("counts words correct per minute of listening", () => {
+    const fluency = summarizeFluency(readSession(), SENTENCE_OF_WORD);
+    expect(fluency.wordsCorrect).toBe(6);
+    expect(fluency.readingTime).toBe(8000);
+    expect(fluency.wordsCorrectPerMinute).toBe(45);
+  });
+
+  it("takes errors off the words correct", () => {
+    const session = readSession({ miscues: [{ type: "substitution", wordIndex: 4, spoken: "burro", at: 14_000 }] });
+    expect(summarizeFluency(session, SENTENCE_OF_WORD).wordsCorrect).toBe(5);
+  });
+
+  it("paces each sentence from the end of the one before", () => {
+    expect(summarizeFluency(readSession(), SENTENCE_OF_WORD).sentences).toEqual([
+      { sentenceIndex: 0, firstWordIndex: 0, lastWordIndex: 2, wordsPerMinute: 72 },
+      { sentenceIndex: 1, firstWordIndex: 3, lastWordIndex: 5, wordsPerMinute: 33 },
+    ]);
+  });
+
+  it("reports long pauses between words without the time the microphone was off", () => {
+    expect(summarizeFluency(readSession(), SENTENCE_OF_WORD).longestPauses).toEqual([
+      { wordIndex: 3, duration: 3500 },
+    ]);
+  });
+
+  it("counts wall time when the microphone periods are unknown", () => {
+    const fluency = summarizeFluency(readSession({ listeningPeriods: [] }), SENTENCE_OF_WORD);
+    expect(fluency.readingTime).toBe(15_000);
+    expect(fluency.wordsCorrectPerMinute).toBe(24);
+  });
+
+  it("gives no rate before any word is timed", () => {
+    expect(summarizeFluency(readSession({ wordTimes: {} }), SENTENCE_OF_WORD).wordsCorrectPerMinute).toBe(0);
+  });
+});
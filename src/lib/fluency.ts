@@ -0,0 +1,104 @@
+import { summarizeSession, type ReadingSession } from "./runningRecord";
+
+// Fluency of a reading session from the time each word was read right:
+// words correct per minute (WCPM), the pace of each sentence and the longest
+// pauses. Only time with the microphone on counts, so a break the child took
+// with the reading paused does not lower the rate.
+
+export interface SentencePace {
+  sentenceIndex: number;
+  firstWordIndex: number;
+  lastWordIndex: number;
+  wordsPerMinute: number;
+}
+
+export interface ReadingPause {
+  // Word read right after the pause
+  wordIndex: number;
+  // Milliseconds
+  duration: number;
+}
+
+export interface FluencySummary {
+  // Words read minus errors, as in the accuracy rate
+  wordsCorrect: number;
+  // Milliseconds listening from the start of the reading to the last word read
+  readingTime: number;
+  wordsCorrectPerMinute: number;
+  sentences: SentencePace[];
+  longestPauses: ReadingPause[];
+}
+
+// Gaps shorter than this are the normal breaks between utterances
+const MIN_PAUSE = 2000;
+const LONGEST_PAUSES = 3;
+
+const MINUTE = 60_000;
+
+// Milliseconds between two instants during which the microphone was on
+const listeningTimeBetween = (session: ReadingSession, from: number, to: number) => {
+  if (session.listeningPeriods.length === 0) return Math.max(0, to - from);
+  return session.listeningPeriods.reduce((total, period) => {
+    const start = Math.max(period.start, from);
+    const end = Math.min(period.end ?? to, to);
+    return total + Math.max(0, end - start);
+  }, 0);
+};
+
+const perMinute = (words: number, duration: number) => (duration > 0 ? Math.round((words * MINUTE) / duration) : 0);
+
+// sentenceOfWord gives the sentence index of each word of the story
+export const summarizeFluency = (session: ReadingSession, sentenceOfWord: number[]): FluencySummary => {
+  const { wordsRead, errors } = summarizeSession(session);
+  const wordsCorrect = Math.max(0, wordsRead - errors);
+
+  const times = Object.entries(session.wordTimes)
+    .map(([wordIndex, { start, end }]) => ({ wordIndex: Number(wordIndex), start, end }))
+    .filter(({ wordIndex }) => wordIndex >= session.startWordIndex);
+  const readingStart = session.listeningPeriods[0]?.start ?? session.startedAt;
+  const lastTime = Math.max(readingStart, ...times.map(({ end }) => end));
+  const readingTime = listeningTimeBetween(session, readingStart, lastTime);
+
+  // A sentence lasts from the end of the last word read before it to the end
+  // of its own last word
+  const sentences: SentencePace[] = [];
+  times
+    .map(({ wordIndex }) => sentenceOfWord[wordIndex])
+    .filter((sentenceIndex, position, all) => all.indexOf(sentenceIndex) === position)
+    .sort((a, b) => a - b)
+    .forEach((sentenceIndex) => {
+      const sentenceTimes = times.filter(({ wordIndex }) => sentenceOfWord[wordIndex] === sentenceIndex);
+      const firstWordIndex = Math.min(...sentenceTimes.map(({ wordIndex }) => wordIndex));
+      const end = Math.max(...sentenceTimes.map(({ end }) => end));
+      const start = Math.max(
+        readingStart,
+        ...times.filter(({ wordIndex }) => wordIndex < firstWordIndex).map(({ end }) => end)
+      );
+      sentences.push({
+        sentenceIndex,
+        firstWordIndex,
+        lastWordIndex: Math.max(...sentenceTimes.map(({ wordIndex }) => wordIndex)),
+        wordsPerMinute: perMinute(sentenceTimes.length, listeningTimeBetween(session, start, end)),
+      });
+    });
+
+  // A pause runs from the end of one word to the start of the next
+  const chronological = [...times].sort((a, b) => a.start - b.start);
+  const longestPauses = chronological
+    .slice(1)
+    .map(({ wordIndex, start }, position) => ({
+      wordIndex,
+      duration: listeningTimeBetween(session, chronological[position].end, start),
+    }))
+    .filter((pause) => pause.duration >= MIN_PAUSE)
+    .sort((a, b) => b.duration - a.duration)
+    .slice(0, LONGEST_PAUSES);
+
+  return {
+    wordsCorrect,
+    readingTime,
+    wordsCorrectPerMinute: perMinute(wordsCorrect, readingTime),
+    sentences,
+    longestPauses,
+  };
+};
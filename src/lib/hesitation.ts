@@ -0,0 +1,63 @@
+// Hints given when the child gets stuck on a word, from the lightest to the
+// one that gives the word away. The timing is set by the grown-up and kept in
+// local storage.
+
+export type HintLevel = "pulse" | "syllables" | "spoken";
+
+// In the order they are given
+export const HINT_LEVELS: HintLevel[] = ["pulse", "syllables", "spoken"];
+
+export const HINT_LABELS: Record<HintLevel, string> = {
+  pulse: "Destaque",
+  syllables: "Sílabas",
+  spoken: "Palavra falada",
+};
+
+export interface HesitationSettings {
+  enabled: boolean;
+  // Milliseconds without progress before the first hint
+  delay: number;
+  // Milliseconds between one hint and the next
+  interval: number;
+}
+
+const HESITATION_KEY = "leiacomigo:hesitation";
+
+const DEFAULT_SETTINGS: HesitationSettings = {
+  enabled: true,
+  delay: 5000,
+  interval: 4000,
+};
+
+const loadSettings = (): HesitationSettings => {
+  if (typeof localStorage === "undefined") return DEFAULT_SETTINGS;
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(localStorage.getItem(HESITATION_KEY) ?? "{}") };
+  } catch (error) {
+    console.error("Could not read hesitation settings:", error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+let settings = loadSettings();
+const listeners = new Set<() => void>();
+
+export const getHesitationSettings = (): HesitationSettings => settings;
+
+export const setHesitationSettings = (changes: Partial<HesitationSettings>) => {
+  settings = { ...settings, ...changes };
+  localStorage.setItem(HESITATION_KEY, JSON.stringify(settings));
+  listeners.forEach((listener) => listener());
+};
+
+// Milliseconds without progress after which the hint at this level is given
+export const hintDelay = (current: HesitationSettings, level: HintLevel): number =>
+  current.delay + HINT_LEVELS.indexOf(level) * current.interval;
+
+// Subscribe to settings changes, returns the unsubscribe function
+export const subscribeToHesitation = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,230 @@
+import type { KaldiRecognizer, Model } from "vosk-browser";
+import type { RecognitionEngineFactory } from "./recognitionEngine";
+
+// Recognition engine that works without network. A small Portuguese Vosk
+// model runs as WebAssembly inside the Web Worker vosk-browser starts, and is
+// fed the microphone audio from getUserMedia. Vosk returns a single
+// hypothesis per utterance, so results carry one alternative.
+
+// Model archive, served by the app or a school's own server
+export const OFFLINE_MODEL_URL =
+  import.meta.env.VITE_VOSK_MODEL_URL ?? "/models/vosk-model-small-pt-0.3.tar.gz";
+
+// Samples per chunk handed to the recognizer
+const AUDIO_BUFFER_SIZE = 4096;
+
+// How long stop() waits for the last utterance before letting it go
+const FINAL_RESULT_TIMEOUT = 1000;
+
+// The library and the model are large; they are loaded on first use and the
+// model is shared by every engine
+let modelPromise: Promise<Model> | undefined;
+
+const loadModel = () => {
+  modelPromise ??= import("vosk-browser")
+    .then(({ createModel }) => createModel(OFFLINE_MODEL_URL))
+    .catch((error) => {
+      modelPromise = undefined;
+      throw error;
+    });
+  return modelPromise;
+};
+
+interface AudioPipeline {
+  stream: MediaStream;
+  context: AudioContext;
+  source: MediaStreamAudioSourceNode;
+  processor: ScriptProcessorNode;
+}
+
+const closePipeline = ({ stream, context, source, processor }: AudioPipeline) => {
+  processor.onaudioprocess = null;
+  source.disconnect();
+  processor.disconnect();
+  stream.getTracks().forEach((track) => track.stop());
+  context.close().catch(() => {
+    // Already closed
+  });
+};
+
+const errorName = (error: unknown) => (error instanceof Error ? error.name : "");
+
+export const createOfflineSpeechEngine: RecognitionEngineFactory = (_options, events) => {
+  const isSupported =
+    typeof window !== "undefined" &&
+    typeof WebAssembly !== "undefined" &&
+    typeof Worker !== "undefined" &&
+    typeof AudioContext !== "undefined" &&
+    Boolean(navigator.mediaDevices?.getUserMedia);
+
+  if (!isSupported) {
+    return { isSupported: false, usesMicrophone: false, start: () => {}, stop: () => {}, dispose: () => {} };
+  }
+
+  let shouldBeListening = false;
+  let isListening = false;
+  // Increases on every start so a start still loading after stop() gives up
+  let run = 0;
+  let pipeline: AudioPipeline | undefined;
+  let recognizer: KaldiRecognizer | undefined;
+  let finalTimeout: ReturnType<typeof setTimeout> | undefined;
+
+  // Ends listening on behalf of target, the recognizer stop() was waiting on;
+  // nothing happens once a newer start has replaced it
+  const finishListening = (target = recognizer) => {
+    if (target !== recognizer) return;
+    clearTimeout(finalTimeout);
+    recognizer?.remove();
+    recognizer = undefined;
+    if (!isListening) return;
+    isListening = false;
+    events.onEnd?.();
+  };
+
+  const fail = (code: string, message: string) => {
+    shouldBeListening = false;
+    if (pipeline) closePipeline(pipeline);
+    pipeline = undefined;
+    events.onError?.({ code, message, fatal: true });
+    finishListening();
+  };
+
+  // audioStart gives the epoch milliseconds of the first audio fed, which the
+  // word times Vosk reports are relative to
+  const createRecognizer = (model: Model, sampleRate: number, audioStart: () => number) => {
+    const next = new model.KaldiRecognizer(sampleRate);
+    next.setWords(true);
+
+    next.on("partialresult", (message) => {
+      if (message.event !== "partialresult" || next !== recognizer) return;
+      const transcript = message.result.partial.trim().toLowerCase();
+      events.onResult?.({
+        transcript,
+        alternatives: [{ transcript, confidence: 1.0 }],
+        isFinal: false,
+        timestamp: Date.now(),
+      });
+    });
+
+    next.on("result", (message) => {
+      if (message.event !== "result" || next !== recognizer) return;
+      const transcript = message.result.text.trim().toLowerCase();
+      if (transcript) {
+        const words = message.result.result ?? [];
+        const confidence =
+          words.length > 0 ? words.reduce((sum, word) => sum + word.conf, 0) / words.length : 1.0;
+        const start = audioStart();
+        const wordTimings = words.map((word) => ({ start: start + word.start * 1000, end: start + word.end * 1000 }));
+        events.onResult?.({
+          transcript,
+          alternatives: [{ transcript, confidence, wordTimings: wordTimings.length > 0 ? wordTimings : undefined }],
+          isFinal: true,
+          timestamp: Date.now(),
+        });
+      }
+      // The last utterance after stop() has arrived
+      if (!shouldBeListening) finishListening(next);
+    });
+
+    next.on("error", (message) => {
+      if (message.event !== "error") return;
+      console.warn("Offline recognition error:", message.error);
+      events.onError?.({ code: "recognizer", message: message.error, fatal: false });
+    });
+
+    return next;
+  };
+
+  const listen = async (currentRun: number) => {
+    let model: Model;
+    try {
+      model = await loadModel();
+    } catch (error) {
+      console.error("Could not load offline speech model:", error);
+      if (currentRun === run) fail("model-unavailable", "Não foi possível carregar o reconhecimento de voz offline.");
+      return;
+    }
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true },
+      });
+    } catch (error) {
+      if (currentRun !== run) return;
+      if (errorName(error) === "NotAllowedError") fail("not-allowed", "Permissão do microfone negada.");
+      else fail("audio-capture", "Não foi possível usar o microfone.");
+      return;
+    }
+
+    // stop() was called while the model or the microphone was loading
+    if (currentRun !== run || !shouldBeListening) {
+      stream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+
+    const context = new AudioContext();
+    const source = context.createMediaStreamSource(stream);
+    // ScriptProcessorNode only runs while connected to the destination; it
+    // outputs silence, so nothing is played back
+    const processor = context.createScriptProcessor(AUDIO_BUFFER_SIZE, 1, 1);
+    let audioStart: number | undefined;
+    const activeRecognizer = createRecognizer(model, context.sampleRate, () => audioStart ?? Date.now());
+    processor.onaudioprocess = (event) => {
+      // The first chunk was captured over the buffer's duration before it arrived
+      audioStart ??= Date.now() - event.inputBuffer.duration * 1000;
+      activeRecognizer.acceptWaveform(event.inputBuffer);
+    };
+    source.connect(processor);
+    processor.connect(context.destination);
+
+    pipeline = { stream, context, source, processor };
+    recognizer = activeRecognizer;
+    isListening = true;
+    events.onStart?.();
+  };
+
+  return {
+    isSupported,
+    usesMicrophone: true,
+
+    start: () => {
+      if (shouldBeListening) return;
+      shouldBeListening = true;
+      // Started again before the last utterance of the previous run arrived;
+      // it is dropped and listening carries on without ending
+      clearTimeout(finalTimeout);
+      recognizer?.remove();
+      recognizer = undefined;
+      run++;
+      listen(run);
+    },
+
+    stop: () => {
+      if (!shouldBeListening) return;
+      shouldBeListening = false;
+      if (pipeline) closePipeline(pipeline);
+      pipeline = undefined;
+
+      if (!recognizer) {
+        finishListening();
+        return;
+      }
+      // Ask for what was said since the last pause; the result handler ends
+      // listening when it arrives
+      const stopping = recognizer;
+      stopping.retrieveFinalResult();
+      finalTimeout = setTimeout(() => finishListening(stopping), FINAL_RESULT_TIMEOUT);
+    },
+
+    dispose: () => {
+      shouldBeListening = false;
+      run++;
+      if (pipeline) closePipeline(pipeline);
+      pipeline = undefined;
+      clearTimeout(finalTimeout);
+      recognizer?.remove();
+      recognizer = undefined;
+    },
+  };
+};
@@ -0,0 +1,91 @@
+import type { Story, StoryIllustration } from "./story";
+import { tokenize, type Token } from "./tokenizer";
+
+// Pages longer than this are split at sentence boundaries
+export const MAX_WORDS_PER_PAGE = 50;
+
+export interface ReadingPage {
+  text: string;
+  // Words of the page, character offsets relative to text and sentence
+  // indexes counted over the whole story
+  tokens: Token[];
+  // Index of the page's first word in the whole-story word list
+  startIndex: number;
+  // Index one past the page's last word
+  endIndex: number;
+  illustration?: StoryIllustration;
+}
+
+
+// Break a story into the pages shown by the reader. Authored pages are kept,
+// and any page that is too long is split into several pages without ever
+// cutting a sentence in half.
+export const paginateStory = (story: Story, maxWordsPerPage = MAX_WORDS_PER_PAGE): ReadingPage[] => {
+  const pages: ReadingPage[] = [];
+  let wordIndex = 0;
+  let sentenceIndex = 0;
+
+  story.pages.forEach((storyPage) => {
+    let sentences: string[] = [];
+    let tokens: Token[] = [];
+    let illustration = storyPage.illustration;
+
+    const flush = () => {
+      if (sentences.length === 0) return;
+      pages.push({
+        text: sentences.join(" "),
+        tokens,
+        startIndex: wordIndex,
+        endIndex: wordIndex + tokens.length,
+        illustration,
+      });
+      wordIndex += tokens.length;
+      sentences = [];
+      tokens = [];
+      // Only the first page cut from an authored page keeps its illustration
+      illustration = undefined;
+    };
+
+    const sentenceTexts = storyPage.paragraphs
+      .flatMap((paragraph) => paragraph.sentences)
+      .map((sentence) => sentence.text);
+
+    // Spread the words evenly instead of leaving a short last page
+    const totalWords = tokenize(sentenceTexts.join(" ")).length;
+    const targetWords = Math.ceil(totalWords / Math.ceil(totalWords / maxWordsPerPage));
+
+    sentenceTexts.forEach((text) => {
+      const sentenceTokens = tokenize(text);
+      if (
+        tokens.length > 0 &&
+        (tokens.length >= targetWords || tokens.length + sentenceTokens.length > maxWordsPerPage)
+      ) {
+        flush();
+      }
+
+      // Authored sentences set the sentence index, and offsets move past the
+      // sentences already on the page and the space joining them
+      const offset = sentences.reduce((length, sentence) => length + sentence.length + 1, 0);
+      tokens.push(
+        ...sentenceTokens.map((token) => ({
+          ...token,
+          start: token.start + offset,
+          end: token.end + offset,
+          sentenceIndex,
+        }))
+      );
+      sentences.push(text);
+      sentenceIndex++;
+    });
+
+    flush();
+  });
+
+  return pages;
+};
+
+// Page holding the given word, clamped to the last page once the story is done
+export const findPageIndex = (pages: ReadingPage[], wordIndex: number): number => {
+  const index = pages.findIndex((page) => wordIndex < page.endIndex);
+  return index === -1 ? pages.length - 1 : index;
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { phoneticKey, soundsAlike } from "./phonetics";
+
+describe("soundsAlike", () => {
+  it.each([
+    ["casa", "caza"],
+    ["chuva", "xuva"],
+    ["céu", "seu"],
+    ["peixe", "peiche"],
+    ["queijo", "keijo"],
+    ["gente", "jente"],
+    ["mal", "mau"],
+    ["gato", "gatu"],
+    ["paz", "pas"],
+    ["exame", "ezame"],
+    ["coração", "corassão"],
+  ])("%s sounds like %s", (first, second) => {
+    expect(soundsAlike(first, second)).toBe(true);
+  });
+
+  it.each([
+    ["carro", "caro"],
+    ["rato", "gato"],
+    ["pão", "pau"],
+    ["avô", "ovo"],
+  ])("%s does not sound like %s", (first, second) => {
+    expect(soundsAlike(first, second)).toBe(false);
+  });
+
+  it("never matches words without letters", () => {
+    expect(soundsAlike("", "")).toBe(false);
+    expect(soundsAlike("21", "21")).toBe(false);
+  });
+});
+
+describe("phoneticKey", () => {
+  it("keeps the tap r apart from the strong r", () => {
+    expect(phoneticKey("caro")).toBe("KArU");
+    expect(phoneticKey("carro")).toBe("KARU");
+    expect(phoneticKey("rua")).toBe(phoneticKey("rrua"));
+  });
+
+  it("marks nasal vowels", () => {
+    expect(phoneticKey("mão")).toBe("MAUN");
+    expect(phoneticKey("campo")).toBe(phoneticKey("canpo"));
+  });
+
+  it("ignores case and punctuation", () => {
+    expect(phoneticKey("Casa!")).toBe(phoneticKey("casa"));
+  });
+});
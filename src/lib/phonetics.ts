@@ -0,0 +1,100 @@
+// Phonetic keys for Brazilian Portuguese words. Two words with the same key
+// sound alike, so spellings the recognizer gets wrong ("caza", "xuva", "seu")
+// still match the story text ("casa", "chuva", "céu").
+//
+// The key is built by rewriting the word with the ordered rules below.
+// Lowercase letters are still to be rewritten; uppercase letters are final
+// sounds, so a later rule never rewrites the output of an earlier one. The
+// only lowercase letter left in a key is "r", the tap in "caro", kept apart
+// from the strong "R" in "carro".
+
+type PhoneticRule = [pattern: RegExp, replacement: string];
+
+const VOWEL = "[aeiouáéíóúâêôãõà]";
+
+// Nasal vowels, before accents are stripped since "ã" and "õ" carry the nasal
+const NASAL_RULES: PhoneticRule[] = [
+  [/ão$|am$/, "AUN"],
+  [/ãe/g, "AIN"],
+  [/õe/g, "OIN"],
+  [/ã/g, "AN"],
+  [/õ/g, "ON"],
+  // Vowel followed by m or n that closes the syllable: "campo", "bem", "ontem"
+  [new RegExp(`(${VOWEL})[mn](?!${VOWEL})`, "g"), "$1N"],
+];
+
+const CONSONANT_RULES: PhoneticRule[] = [
+  // Digraphs and the silent h
+  [/ch/g, "X"],
+  [/lh/g, "LI"],
+  [/nh/g, "NI"],
+  [/h/g, ""],
+  // qu and gu: the u is silent before e and i ("queijo", "guerra")
+  [/qu(?=[ei])/g, "K"],
+  [/qu/g, "KU"],
+  [/gu(?=[ei])/g, "G"],
+  [/gu/g, "GU"],
+  // The many spellings of the s sound
+  [/[sx]c(?=[ei])/g, "S"],
+  [/ss/g, "S"],
+  [/c(?=[ei])/g, "S"],
+  [/[ck]/g, "K"],
+  [/g(?=[ei])/g, "J"],
+  [/g/g, "G"],
+  [/j/g, "J"],
+  // x sounds like z in "exame", like ch everywhere else that matters for children's texts
+  [/(?<=e)x(?=[aeiou])/g, "Z"],
+  [/x/g, "X"],
+  // Strong r: doubled, at the start of a word or after n, l or s
+  [/rr/g, "R"],
+  [/^r/, "R"],
+  [/(?<=[NnLlSs])r/g, "R"],
+];
+
+const SIBILANT_RULES: PhoneticRule[] = [
+  // s between vowels sounds like z ("casa"), z at the end like s ("paz")
+  [/(?<=[aeiouAEIOU])s(?=[aeiouAEIOU])/g, "Z"],
+  [/s/g, "S"],
+  [/z$/, "S"],
+  [/z/g, "Z"],
+];
+
+const VOWEL_RULES: PhoneticRule[] = [
+  // l closing a syllable is spoken as u: "mal" and "mau"
+  [/l(?![aeiouAEIOU])/g, "U"],
+  [/l/g, "L"],
+  // Unstressed final e and o close up to i and u: "leite", "gato". Words of
+  // one syllable keep them, as in "vez" and "dos".
+  [/(?<=[aeiouAEIOU][^aeiouAEIOU]*)e(?=S?$)/, "I"],
+  [/(?<=[aeiouAEIOU][^aeiouAEIOU]*)o(?=S?$)/, "U"],
+  [/w/g, "U"],
+  [/y/g, "I"],
+];
+
+const applyRules = (word: string, rules: PhoneticRule[]) =>
+  rules.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), word);
+
+const stripAccents = (word: string) =>
+  word
+    .replace(/ç/g, "S")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "");
+
+export const phoneticKey = (word: string): string => {
+  const letters = word.toLowerCase().normalize("NFC").replace(/[^\p{L}]/gu, "");
+
+  let key = applyRules(letters, NASAL_RULES);
+  key = stripAccents(key);
+  key = applyRules(key, CONSONANT_RULES);
+  key = applyRules(key, SIBILANT_RULES);
+  key = applyRules(key, VOWEL_RULES);
+
+  return key
+    .replace(/[a-qs-z]/g, (letter) => letter.toUpperCase())
+    .replace(/(.)\1+/g, "$1");
+};
+
+export const soundsAlike = (first: string, second: string): boolean => {
+  const firstKey = phoneticKey(first);
+  return firstKey.length > 0 && firstKey === phoneticKey(second);
+};
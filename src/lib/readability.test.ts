@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { analyzeReadability, formatReadingTime } from "./readability";
+import { isComplexSyllable, splitSyllables } from "./syllables";
+
+describe("splitSyllables", () => {
+  it.each([
+    ["casa", ["ca", "sa"]],
+    ["gato", ["ga", "to"]],
+    ["chuva", ["chu", "va"]],
+    ["carro", ["car", "ro"]],
+    ["pássaro", ["pás", "sa", "ro"]],
+    ["livro", ["li", "vro"]],
+    ["pé-de-feijão", ["pé", "de", "fei", "jão"]],
+    ["sol", ["sol"]],
+  ])("splits %s into %j", (word, syllables) => {
+    expect(splitSyllables(word)).toEqual(syllables);
+  });
+});
+
+describe("isComplexSyllable", () => {
+  it("counts only V and CV syllables as simple", () => {
+    expect(["a", "ca", "to", "que"].map(isComplexSyllable)).toEqual([false, false, false, false]);
+    expect(["vro", "sol", "chu", "pai"].map(isComplexSyllable)).toEqual([true, true, true, true]);
+  });
+});
+
+describe("analyzeReadability", () => {
+  const easy = "O gato é bom. O gato pula. A bola é da Lua.";
+  const hard =
+    "Quando a tempestade atravessou o horizonte, os navegantes perceberam que precisariam " +
+    "abandonar imediatamente a embarcação para sobreviver. Desesperados, procuraram abrigo " +
+    "nas montanhas escarpadas que circundavam a enseada tranquila.";
+
+  it("counts words, sentences and syllables", () => {
+    const report = analyzeReadability(easy);
+    expect(report.wordCount).toBe(12);
+    expect(report.sentenceCount).toBe(3);
+    expect(report.wordsPerSentence).toBe(4);
+    expect(report.syllableCount).toBe(17);
+  });
+
+  it("rates short sentences of short words easy and long ones hard", () => {
+    expect(analyzeReadability(easy).difficulty).toBe("easy");
+    expect(analyzeReadability(hard).difficulty).toBe("hard");
+    expect(analyzeReadability(easy).fleschScore).toBeGreaterThan(analyzeReadability(hard).fleschScore);
+  });
+
+  it("estimates the reading time from the words per minute", () => {
+    expect(analyzeReadability(easy, 6).readingMinutes).toBe(2);
+    expect(formatReadingTime(0.2)).toBe("1 min");
+    expect(formatReadingTime(2.6)).toBe("3 min");
+  });
+
+  it("rates an empty text easy", () => {
+    expect(analyzeReadability("").wordCount).toBe(0);
+    expect(analyzeReadability("").difficulty).toBe("easy");
+  });
+});
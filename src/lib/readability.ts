@@ -0,0 +1,83 @@
+import type { Story, StoryDifficulty } from "./story";
+import { countSyllables, isComplexSyllable, splitSyllables } from "./syllables";
+
+// Typical oral reading rate of a child in the first years of school
+export const DEFAULT_WORDS_PER_MINUTE = 50;
+
+export interface ReadabilityReport {
+  wordCount: number;
+  sentenceCount: number;
+  syllableCount: number;
+  wordsPerSentence: number;
+  syllablesPerWord: number;
+  // Flesch reading ease adapted for Portuguese (Martins et al., 1996), 0-100
+  fleschScore: number;
+  // Share of syllables that are not a plain V or CV pattern
+  complexSyllableRatio: number;
+  difficulty: StoryDifficulty;
+  readingMinutes: number;
+}
+
+const extractWordsForAnalysis = (text: string): string[] =>
+  text
+    .split(/\s+/)
+    .map((word) => word.replace(/[^\p{L}-]/gu, ""))
+    .filter((word) => word.length > 0);
+
+// Flesch for Portuguese: 248.835 - 1.015 * ASL - 84.6 * ASW
+const fleschPortuguese = (wordsPerSentence: number, syllablesPerWord: number): number =>
+  Math.min(100, Math.max(0, 248.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord));
+
+// Children's texts all land in Flesch's "very easy" band, so the tiers are
+// drawn inside it and nudged up when the syllables themselves are hard.
+const difficultyFor = (fleschScore: number, complexSyllableRatio: number): StoryDifficulty => {
+  const adjusted = fleschScore - 40 * Math.max(0, complexSyllableRatio - 0.3);
+  if (adjusted >= 90) return "easy";
+  if (adjusted >= 72) return "medium";
+  return "hard";
+};
+
+export const analyzeReadability = (
+  text: string,
+  wordsPerMinute = DEFAULT_WORDS_PER_MINUTE
+): ReadabilityReport => {
+  const words = extractWordsForAnalysis(text);
+  const wordCount = words.length;
+  const sentenceCount = Math.max(1, text.split(/[.!?…]+/).filter((part) => /\p{L}/u.test(part)).length);
+
+  const syllables = words.flatMap(splitSyllables);
+  const syllableCount = words.reduce((sum, word) => sum + countSyllables(word), 0);
+  const complexCount = syllables.filter(isComplexSyllable).length;
+
+  const wordsPerSentence = wordCount / sentenceCount;
+  const syllablesPerWord = wordCount > 0 ? syllableCount / wordCount : 0;
+  const fleschScore = wordCount > 0 ? fleschPortuguese(wordsPerSentence, syllablesPerWord) : 100;
+  const complexSyllableRatio = syllables.length > 0 ? complexCount / syllables.length : 0;
+
+  return {
+    wordCount,
+    sentenceCount,
+    syllableCount,
+    wordsPerSentence,
+    syllablesPerWord,
+    fleschScore,
+    complexSyllableRatio,
+    difficulty: difficultyFor(fleschScore, complexSyllableRatio),
+    readingMinutes: wordCount / wordsPerMinute,
+  };
+};
+
+// Reports are cached per story object since the catalog re-renders often
+const storyReports = new WeakMap<Story, ReadabilityReport>();
+
+export const analyzeStory = (story: Story): ReadabilityReport => {
+  let report = storyReports.get(story);
+  if (!report) {
+    report = analyzeReadability(story.text);
+    storyReports.set(story, report);
+  }
+  return report;
+};
+
+// "1 min", "3 min"; short stories never show less than a minute
+export const formatReadingTime = (minutes: number): string => `${Math.max(1, Math.round(minutes))} min`;
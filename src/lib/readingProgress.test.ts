@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { findStoryToContinue, type StoryProgress } from "./readingProgress";
+
+const entry = (lastWordIndex: number, lastReadAt: number): StoryProgress => ({
+  lastWordIndex,
+  wordCount: 100,
+  completed: false,
+  lastReadAt,
+});
+
+describe("findStoryToContinue", () => {
+  const progress = { a: entry(10, 1), b: entry(20, 3), c: entry(0, 5) };
+
+  it("picks the story left halfway most recently", () => {
+    expect(findStoryToContinue(progress, () => true)).toBe("b");
+  });
+
+  it("skips stories that no longer exist", () => {
+    expect(findStoryToContinue(progress, (storyId) => storyId !== "b")).toBe("a");
+    expect(findStoryToContinue(progress, () => false)).toBeUndefined();
+  });
+});
@@ -0,0 +1,87 @@
+// Per-story reading progress kept in local storage
+
+const PROGRESS_KEY = "leiacomigo:progress";
+
+export interface StoryProgress {
+  // Word the next session resumes from, back to 0 once the story is finished
+  lastWordIndex: number;
+  // Length of the story when the position was saved, to show how far along it is
+  wordCount: number;
+  completed: boolean;
+  // Best share of words read right on the first try in a finished session, 0-1
+  bestAccuracy?: number;
+  // Epoch milliseconds of the last time the story was opened for reading
+  lastReadAt: number;
+}
+
+export type ProgressByStory = Record<string, StoryProgress>;
+
+const EMPTY_PROGRESS: StoryProgress = { lastWordIndex: 0, wordCount: 0, completed: false, lastReadAt: 0 };
+
+const loadProgress = (): ProgressByStory => {
+  if (typeof localStorage === "undefined") return {};
+  try {
+    const saved: Record<string, Partial<StoryProgress>> = JSON.parse(localStorage.getItem(PROGRESS_KEY) ?? "{}");
+    // Fill in fields that older saves did not have
+    return Object.fromEntries(
+      Object.entries(saved).map(([storyId, entry]) => [storyId, { ...EMPTY_PROGRESS, ...entry }])
+    );
+  } catch (error) {
+    console.error("Could not read reading progress:", error);
+    return {};
+  }
+};
+
+let progress = loadProgress();
+const listeners = new Set<() => void>();
+
+const updateProgress = (storyId: string, changes: Partial<StoryProgress>) => {
+  progress = {
+    ...progress,
+    [storyId]: { ...EMPTY_PROGRESS, ...progress[storyId], ...changes, lastReadAt: Date.now() },
+  };
+  localStorage.setItem(PROGRESS_KEY, JSON.stringify(progress));
+  listeners.forEach((listener) => listener());
+};
+
+export const getAllProgress = (): ProgressByStory => progress;
+
+export const getStoryProgress = (storyId: string): StoryProgress | undefined => progress[storyId];
+
+// Note that the story was opened, keeping where it was left
+export const markStoryRead = (storyId: string) => updateProgress(storyId, {});
+
+export const saveReadingPosition = (storyId: string, lastWordIndex: number, wordCount: number) => {
+  const saved = progress[storyId];
+  if (saved?.lastWordIndex === lastWordIndex && saved.wordCount === wordCount) return;
+  updateProgress(storyId, { lastWordIndex, wordCount });
+};
+
+export const markStoryCompleted = (storyId: string, accuracy: number) => {
+  const bestAccuracy = Math.max(accuracy, progress[storyId]?.bestAccuracy ?? 0);
+  updateProgress(storyId, { completed: true, lastWordIndex: 0, bestAccuracy });
+};
+
+// Word a new session should start from, 0 when the saved position no longer fits the story
+export const resumeWordIndex = (storyId: string, wordCount: number): number => {
+  const saved = progress[storyId];
+  return saved && saved.lastWordIndex < wordCount ? saved.lastWordIndex : 0;
+};
+
+// Story read most recently that was left halfway through, among those that
+// still exist; progress of a deleted story stays behind
+export const findStoryToContinue = (
+  progressByStory: ProgressByStory,
+  exists: (storyId: string) => boolean
+): string | undefined =>
+  Object.entries(progressByStory)
+    .filter(([storyId, entry]) => entry.lastWordIndex > 0 && exists(storyId))
+    .sort(([, a], [, b]) => b.lastReadAt - a.lastReadAt)[0]?.[0];
+
+// Subscribe to progress changes, returns the unsubscribe function
+export const subscribeToProgress = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
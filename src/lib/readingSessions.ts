@@ -0,0 +1,41 @@
+import type { ReadingSession } from "./runningRecord";
+import { deleteSessionAudio } from "./sessionAudio";
+
+// Finished reading sessions kept in local storage for the running-record view
+
+const SESSIONS_KEY = "leiacomigo:sessions";
+
+// Oldest sessions are dropped past this many
+const MAX_SESSIONS = 50;
+
+const loadSessions = (): ReadingSession[] => {
+  if (typeof localStorage === "undefined") return [];
+  try {
+    return JSON.parse(localStorage.getItem(SESSIONS_KEY) ?? "[]");
+  } catch (error) {
+    console.error("Could not read reading sessions:", error);
+    return [];
+  }
+};
+
+let sessions = loadSessions();
+
+export const getSessionById = (id: string): ReadingSession | undefined =>
+  sessions.find((session) => session.id === id);
+
+// Most recent first
+export const getSessionsForStory = (storyId: string): ReadingSession[] =>
+  sessions.filter((session) => session.storyId === storyId).sort((a, b) => b.startedAt - a.startedAt);
+
+// Adds the session, or replaces it when it was saved before. The recordings
+// of sessions dropped for being too old go with them.
+export const saveSession = (session: ReadingSession) => {
+  const kept = [session, ...sessions.filter((saved) => saved.id !== session.id)];
+  kept.slice(MAX_SESSIONS).forEach((dropped) => deleteSessionAudio(dropped.id));
+  sessions = kept.slice(0, MAX_SESSIONS);
+  try {
+    localStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+  } catch (error) {
+    console.error("Could not save reading session:", error);
+  }
+};
@@ -0,0 +1,93 @@
+import { createOfflineSpeechEngine } from "./offlineSpeechEngine";
+import { createScriptedSpeechEngine, requestedRecognitionScript } from "./scriptedSpeechEngine";
+import type { TranscriptAlternative } from "./textMatching";
+import type { RecognitionVocabulary } from "./vocabularyBias";
+import { createWebSpeechEngine } from "./webSpeechEngine";
+
+// A speech recognizer as seen by useSpeechRecognition. Engines hide how they
+// keep listening (restarts, audio capture, workers) and report what was heard
+// as interim and final results, so a different recognizer can be plugged in
+// without touching the reading screen.
+
+export interface RecognitionResult {
+  // Best transcript, lowercased and trimmed
+  transcript: string;
+  // Every hypothesis for the utterance, best first; the first one is `transcript`
+  alternatives: TranscriptAlternative[];
+  // Interim results may still change; only final results are matched
+  isFinal: boolean;
+  // Date.now() when the result arrived
+  timestamp: number;
+}
+
+export interface RecognitionError {
+  // Web Speech error names are used by every engine: "not-allowed",
+  // "audio-capture", "network", ...
+  code: string;
+  // Message to show instead of the code, when the engine has one
+  message?: string;
+  // The engine stopped listening because of it
+  fatal: boolean;
+}
+
+export interface RecognitionEngineEvents {
+  // Listening began, or resumed after a restart
+  onStart?: () => void;
+  // Listening stopped for a moment and is about to resume; attempt counts the
+  // restarts in a row that came too quickly, 0 for a routine one
+  onRestart?: (attempt: number) => void;
+  // Listening ended, after stop() or a fatal error
+  onEnd?: () => void;
+  onResult?: (result: RecognitionResult) => void;
+  onError?: (error: RecognitionError) => void;
+}
+
+export interface RecognitionEngineOptions {
+  language: string;
+  maxAlternatives: number;
+}
+
+export interface RecognitionEngine {
+  readonly isSupported: boolean;
+  // Listens to the microphone, so permission is asked for before starting
+  readonly usesMicrophone: boolean;
+  // Keeps listening until stop() is called or a fatal error happens
+  start: () => void;
+  stop: () => void;
+  // Releases the recognizer; the engine cannot be started again
+  dispose: () => void;
+  // Grammar hook: biases recognition toward the story's words. Engines
+  // without one leave it out and only get their alternatives rescored.
+  setVocabulary?: (vocabulary: RecognitionVocabulary) => void;
+}
+
+export type RecognitionEngineFactory = (
+  options: RecognitionEngineOptions,
+  events: RecognitionEngineEvents
+) => RecognitionEngine;
+
+export type RecognitionEngineKind = "web-speech" | "offline";
+
+// Web Speech in Chrome sends audio to a cloud service, so without network, or
+// without Web Speech at all, the offline engine is used. VITE_RECOGNITION_ENGINE
+// forces one of them, e.g. for schools with no reliable connection.
+export const preferredEngineKind = (): RecognitionEngineKind => {
+  const configured = import.meta.env.VITE_RECOGNITION_ENGINE;
+  if (configured === "web-speech" || configured === "offline") return configured;
+
+  const hasWebSpeech = "SpeechRecognition" in window || "webkitSpeechRecognition" in window;
+  return hasWebSpeech && navigator.onLine ? "web-speech" : "offline";
+};
+
+const ENGINES: Record<RecognitionEngineKind, RecognitionEngineFactory> = {
+  "web-speech": createWebSpeechEngine,
+  offline: createOfflineSpeechEngine,
+};
+
+// Engine used when useSpeechRecognition is not given one; in development a
+// recognition script named in the URL replaces the microphone
+export const createRecognitionEngine: RecognitionEngineFactory = (options, events) => {
+  const script = requestedRecognitionScript();
+  if (script) return createScriptedSpeechEngine(script)(options, events);
+  return ENGINES[preferredEngineKind()](options, events);
+};
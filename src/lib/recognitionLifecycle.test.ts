@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import {
+  INITIAL_RECOGNITION_STATE,
+  isActiveState,
+  isStoppedState,
+  transition,
+  type RecognitionLifecycleEvent,
+  type RecognitionState,
+} from "./recognitionLifecycle";
+
+const ERROR = { code: "not-allowed", fatal: true };
+
+const run = (...events: RecognitionLifecycleEvent[]): RecognitionState =>
+  events.reduce(transition, INITIAL_RECOGNITION_STATE);
+
+describe("transition", () => {
+  it("asks for the microphone before starting when it was never granted", () => {
+    expect(run({ type: "start", needsPermission: true })).toEqual({ status: "requesting-permission" });
+    expect(run({ type: "start", needsPermission: true }, { type: "permission-granted" })).toEqual({
+      status: "starting",
+    });
+    expect(run({ type: "start", needsPermission: false })).toEqual({ status: "starting" });
+  });
+
+  it("fails when the microphone is denied", () => {
+    expect(run({ type: "start", needsPermission: true }, { type: "permission-denied", error: ERROR })).toEqual({
+      status: "failed",
+      error: ERROR,
+    });
+  });
+
+  it("listens through restarts", () => {
+    const listening = run({ type: "start", needsPermission: false }, { type: "engine-started" });
+    expect(listening).toEqual({ status: "listening" });
+    const restarting = transition(listening, { type: "engine-restarting", attempt: 2 });
+    expect(restarting).toEqual({ status: "restarting", attempt: 2 });
+    expect(transition(restarting, { type: "engine-started" })).toEqual({ status: "listening" });
+  });
+
+  it("pauses on stop and goes idle when the engine stops by itself", () => {
+    const listening = run({ type: "start", needsPermission: false }, { type: "engine-started" });
+    expect(transition(listening, { type: "stop" })).toEqual({ status: "paused" });
+    expect(transition(listening, { type: "engine-ended" })).toEqual({ status: "idle" });
+    expect(transition(listening, { type: "engine-failed", error: ERROR })).toEqual({ status: "failed", error: ERROR });
+  });
+
+  it("can start again after pausing or failing", () => {
+    const paused = run({ type: "start", needsPermission: false }, { type: "stop" });
+    expect(transition(paused, { type: "start", needsPermission: false })).toEqual({ status: "starting" });
+    const failed: RecognitionState = { status: "failed", error: ERROR };
+    expect(transition(failed, { type: "start", needsPermission: true })).toEqual({ status: "requesting-permission" });
+  });
+
+  it("leaves the state as it is for events it does not handle", () => {
+    const paused = run({ type: "start", needsPermission: false }, { type: "stop" });
+    expect(transition(paused, { type: "engine-started" })).toBe(paused);
+    expect(transition(INITIAL_RECOGNITION_STATE, { type: "stop" })).toBe(INITIAL_RECOGNITION_STATE);
+    // A late grant after the child stopped does not start listening
+    expect(transition(paused, { type: "permission-granted" })).toBe(paused);
+  });
+});
+
+describe("isActiveState and isStoppedState", () => {
+  it("split the states by whether results may arrive", () => {
+    const states: RecognitionState[] = [
+      { status: "idle" },
+      { status: "requesting-permission" },
+      { status: "starting" },
+      { status: "listening" },
+      { status: "restarting", attempt: 0 },
+      { status: "paused" },
+      { status: "failed", error: ERROR },
+    ];
+    expect(states.filter(isActiveState).map((state) => state.status)).toEqual(["listening", "restarting"]);
+    expect(states.filter(isStoppedState).map((state) => state.status)).toEqual(["idle", "paused", "failed"]);
+  });
+});
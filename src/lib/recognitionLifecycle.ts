@@ -0,0 +1,98 @@
+import type { RecognitionError } from "./recognitionEngine";
+
+// Lifecycle of a listening session as a finite state machine. The hook feeds
+// it what the child does (start, stop) and what the engine reports, and the
+// reading screen shows the state as it is, including restarts and giving up.
+
+export type RecognitionState =
+  // Never started, or the engine stopped by itself
+  | { status: "idle" }
+  // Waiting for the browser's microphone prompt
+  | { status: "requesting-permission" }
+  // Engine asked to start, not listening yet
+  | { status: "starting" }
+  | { status: "listening" }
+  // Between two recognition sessions; attempt counts quick restarts in a row
+  | { status: "restarting"; attempt: number }
+  // Stopped by the child or because the story was finished
+  | { status: "paused" }
+  | { status: "failed"; error: RecognitionError };
+
+export type RecognitionStatus = RecognitionState["status"];
+
+export type RecognitionLifecycleEvent =
+  // The child pressed the microphone; needsPermission when it was never granted
+  | { type: "start"; needsPermission: boolean }
+  | { type: "permission-granted" }
+  | { type: "permission-denied"; error: RecognitionError }
+  | { type: "stop" }
+  | { type: "engine-started" }
+  | { type: "engine-restarting"; attempt: number }
+  | { type: "engine-ended" }
+  | { type: "engine-failed"; error: RecognitionError };
+
+type Transitions = {
+  [Status in RecognitionStatus]: {
+    [Type in RecognitionLifecycleEvent["type"]]?: (
+      event: Extract<RecognitionLifecycleEvent, { type: Type }>
+    ) => RecognitionState;
+  };
+};
+
+const start = ({ needsPermission }: { needsPermission: boolean }): RecognitionState =>
+  needsPermission ? { status: "requesting-permission" } : { status: "starting" };
+const listening = (): RecognitionState => ({ status: "listening" });
+const restarting = ({ attempt }: { attempt: number }): RecognitionState => ({ status: "restarting", attempt });
+const paused = (): RecognitionState => ({ status: "paused" });
+const idle = (): RecognitionState => ({ status: "idle" });
+const failed = ({ error }: { error: RecognitionError }): RecognitionState => ({ status: "failed", error });
+
+// Events missing from a state are ignored in it
+const TRANSITIONS: Transitions = {
+  idle: { start },
+  "requesting-permission": {
+    "permission-granted": () => ({ status: "starting" }),
+    "permission-denied": failed,
+    stop: paused,
+  },
+  starting: {
+    "engine-started": listening,
+    "engine-failed": failed,
+    "engine-ended": idle,
+    stop: paused,
+  },
+  listening: {
+    "engine-restarting": restarting,
+    "engine-failed": failed,
+    "engine-ended": idle,
+    stop: paused,
+  },
+  restarting: {
+    "engine-started": listening,
+    "engine-restarting": restarting,
+    "engine-failed": failed,
+    "engine-ended": idle,
+    stop: paused,
+  },
+  paused: { start },
+  failed: { start },
+};
+
+export const INITIAL_RECOGNITION_STATE: RecognitionState = { status: "idle" };
+
+// Reducer for useReducer: the state after the event, or the same state when
+// the event is ignored
+export const transition = (state: RecognitionState, event: RecognitionLifecycleEvent): RecognitionState => {
+  const handler = TRANSITIONS[state.status][event.type] as
+    | ((event: RecognitionLifecycleEvent) => RecognitionState)
+    | undefined;
+  return handler ? handler(event) : state;
+};
+
+// The microphone is on and results may still arrive
+export const isActiveState = (state: RecognitionState) =>
+  state.status === "listening" || state.status === "restarting";
+
+// Nothing is running, so the microphone button starts listening
+export const isStoppedState = (state: RecognitionState) =>
+  state.status === "idle" || state.status === "paused" || state.status === "failed";
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import {
+  createSession,
+  recordHint,
+  recordTeacherAssist,
+  recordTranscript,
+  summarizeSession,
+  type ReadingSession,
+} from "./runningRecord";
+import type { AlignmentOperation } from "./textMatching";
+
+const WORDS = "o gato pulou o muro alto".split(" ");
+
+const newSession = () => createSession("gato", "O Gato", WORDS, 0);
+
+const read = (session: ReadingSession, cursor: number, nextIndex: number, ...operations: AlignmentOperation[]) =>
+  recordTranscript(session, "", { operations, nextIndex }, cursor);
+
+const match = (expectedIndex: number): Extract<AlignmentOperation, { type: "match" }> => ({
+  type: "match",
+  spoken: WORDS[expectedIndex],
+  expectedIndex,
+});
+
+const miscuesOf = (session: ReadingSession) =>
+  session.miscues.map(({ type, wordIndex, spoken }) => ({ type, wordIndex, spoken }));
+
+describe("recordTranscript", () => {
+  it("records a misread word as a substitution", () => {
+    const session = read(newSession(), 0, 1, match(0), { type: "substitution", spoken: "rato", expectedIndex: 1 });
+    expect(miscuesOf(session)).toEqual([{ type: "substitution", wordIndex: 1, spoken: "rato" }]);
+    expect(session.endWordIndex).toBe(1);
+  });
+
+  it("turns a substitution the child fixed into a self-correction", () => {
+    let session = read(newSession(), 0, 1, match(0), { type: "substitution", spoken: "rato", expectedIndex: 1 });
+    session = read(session, 1, 2, { type: "substitution", spoken: "pato", expectedIndex: 1 });
+    session = read(session, 1, 2, match(1));
+    expect(miscuesOf(session)).toEqual([{ type: "self-correction", wordIndex: 1, spoken: "rato" }]);
+  });
+
+  it("records a skipped word as an omission", () => {
+    const session = read(newSession(), 0, 3, match(0), { type: "omission", expectedIndex: 1 }, match(2));
+    expect(miscuesOf(session)).toEqual([{ type: "omission", wordIndex: 1, spoken: undefined }]);
+  });
+
+  it("tells repeated words from inserted ones and leaves fillers out", () => {
+    const session = read(
+      newSession(),
+      0,
+      3,
+      match(0),
+      match(1),
+      { type: "insertion", spoken: "gato" },
+      { type: "insertion", spoken: "hum" },
+      { type: "insertion", spoken: "bonito" },
+      match(2)
+    );
+    expect(miscuesOf(session)).toEqual([
+      { type: "repetition", wordIndex: 1, spoken: "gato" },
+      { type: "insertion", wordIndex: 2, spoken: "bonito" },
+    ]);
+  });
+
+  it("times words from the spoken words they were read with", () => {
+    const session = recordTranscript(
+      newSession(),
+      "o gato",
+      { operations: [{ ...match(0), spokenRange: [0, 0] }, { ...match(1), spokenRange: [1, 1] }], nextIndex: 2 },
+      0,
+      [
+        { start: 100, end: 200 },
+        { start: 300, end: 700 },
+      ]
+    );
+    expect(session.wordTimes).toEqual({ 0: { start: 100, end: 200 }, 1: { start: 300, end: 700 } });
+  });
+});
+
+describe("recordTeacherAssist", () => {
+  it("replaces a failed attempt at the word", () => {
+    let session = read(newSession(), 0, 1, match(0), { type: "substitution", spoken: "rato", expectedIndex: 1 });
+    session = recordTeacherAssist(session, 1);
+    expect(miscuesOf(session)).toEqual([{ type: "teacher-assisted", wordIndex: 1, spoken: undefined }]);
+  });
+
+  it("ignores words already read", () => {
+    const session = read(newSession(), 0, 2, match(0), match(1));
+    expect(recordTeacherAssist(session, 1)).toBe(session);
+  });
+
+  it("counts a spoken hint as being told the word", () => {
+    expect(recordHint(newSession(), 0, "syllables").miscues).toEqual([]);
+    expect(recordHint(newSession(), 0, "spoken").miscues.map((miscue) => miscue.type)).toEqual(["teacher-assisted"]);
+  });
+});
+
+describe("summarizeSession", () => {
+  it("counts errors against the words read", () => {
+    let session = read(newSession(), 0, 1, match(0), { type: "substitution", spoken: "rato", expectedIndex: 1 });
+    session = read(session, 1, 4, match(1), match(2), match(3));
+    session = read(session, 4, 6, { type: "substitution", spoken: "murro", expectedIndex: 4 }, match(5));
+    session = read(session, 6, 6, { type: "insertion", spoken: "fim" });
+
+    const summary = summarizeSession(session);
+    expect(summary.wordsRead).toBe(6);
+    expect(summary.errors).toBe(2);
+    expect(summary.selfCorrections).toBe(1);
+    expect(summary.accuracy).toBeCloseTo(4 / 6);
+    expect(summary.selfCorrectionRate).toBe(3);
+    expect(summary.substitutions).toEqual([
+      { wordIndex: 1, expected: "gato", spoken: "rato", selfCorrected: true },
+      { wordIndex: 4, expected: "muro", spoken: "murro", selfCorrected: false },
+    ]);
+  });
+
+  it("is fully accurate before any word is read", () => {
+    expect(summarizeSession(newSession()).accuracy).toBe(1);
+  });
+});
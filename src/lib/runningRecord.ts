@@ -0,0 +1,238 @@
+import type { HintLevel } from "./hesitation";
+import type { AlignmentResult, WordTiming } from "./textMatching";
+import { isFillerWord, wordsMatch } from "./textMatching";
+
+// Running record of a reading session: every miscue the child made, classified
+// the way teachers mark them on paper, built from the recognizer transcripts
+
+export type MiscueType =
+  | "substitution"
+  | "omission"
+  | "insertion"
+  | "repetition"
+  | "self-correction"
+  | "teacher-assisted";
+
+export interface Miscue {
+  type: MiscueType;
+  // Word the miscue is on; for insertions, the word the extra word came before
+  wordIndex: number;
+  spoken?: string;
+  // Epoch milliseconds
+  at: number;
+}
+
+export interface ReadingHint {
+  level: HintLevel;
+  wordIndex: number;
+  // Epoch milliseconds
+  at: number;
+}
+
+export interface ReadingSession {
+  id: string;
+  storyId: string;
+  storyTitle: string;
+  words: string[];
+  // Sessions resumed halfway only cover the words from here on
+  startWordIndex: number;
+  // Word the child had reached when the session was saved
+  endWordIndex: number;
+  startedAt: number;
+  endedAt?: number;
+  transcripts: string[];
+  miscues: Miscue[];
+  // When each word was last read right, by word index
+  wordTimes: Record<number, WordTiming>;
+  // Stretches of time the microphone was on; end is missing while it still is
+  listeningPeriods: { start: number; end?: number }[];
+  // Hints given because the child got stuck, in the order they were given
+  hints: ReadingHint[];
+}
+
+// Miscues that count as errors in the accuracy rate
+const ERROR_TYPES: MiscueType[] = ["substitution", "omission", "insertion", "teacher-assisted"];
+
+// How far back a re-read word is still taken as a repetition
+const REPETITION_LOOKBACK = 4;
+
+export const MISCUE_LABELS: Record<MiscueType, string> = {
+  substitution: "Troca",
+  omission: "Omissão",
+  insertion: "Inserção",
+  repetition: "Repetição",
+  "self-correction": "Autocorreção",
+  "teacher-assisted": "Ajuda",
+};
+
+export const createSession = (
+  storyId: string,
+  storyTitle: string,
+  words: string[],
+  startWordIndex: number
+): ReadingSession => ({
+  id: `session-${Date.now().toString(36)}`,
+  storyId,
+  storyTitle,
+  words,
+  startWordIndex,
+  endWordIndex: startWordIndex,
+  startedAt: Date.now(),
+  transcripts: [],
+  miscues: [],
+  wordTimes: {},
+  listeningPeriods: [],
+  hints: [],
+});
+
+const findMiscue = (miscues: Miscue[], wordIndex: number, types: MiscueType[]) =>
+  miscues.find((miscue) => miscue.wordIndex === wordIndex && types.includes(miscue.type));
+
+// Adds what one transcript shows to the session. cursor is the word the child
+// was on when the transcript arrived; spokenTimings are the times of the
+// aligned spoken words, when the recognizer gave them. Without them words are
+// timed by the arrival of the transcript.
+export const recordTranscript = (
+  session: ReadingSession,
+  transcript: string,
+  alignment: AlignmentResult,
+  cursor: number,
+  spokenTimings: (WordTiming | undefined)[] = []
+): ReadingSession => {
+  const at = Date.now();
+  const miscues = [...session.miscues];
+  const wordTimes = { ...session.wordTimes };
+  const matchedInTranscript: number[] = [];
+
+  alignment.operations.forEach((operation) => {
+    switch (operation.type) {
+      case "insertion": {
+        if (isFillerWord(operation.spoken)) return;
+        // Saying again a word just read is a repetition, not an error
+        const position = matchedInTranscript.length > 0 ? matchedInTranscript[matchedInTranscript.length - 1] + 1 : cursor;
+        const lookbackStart = Math.max(session.startWordIndex, position - REPETITION_LOOKBACK);
+        const recentWords = Array.from({ length: position - lookbackStart }, (_, offset) => position - 1 - offset);
+        const repeated = recentWords.find((index) => wordsMatch(operation.spoken, session.words[index]));
+        miscues.push(
+          repeated !== undefined
+            ? { type: "repetition", wordIndex: repeated, spoken: operation.spoken, at }
+            : { type: "insertion", wordIndex: position, spoken: operation.spoken, at }
+        );
+        return;
+      }
+      case "match": {
+        matchedInTranscript.push(operation.expectedIndex);
+        const [first, last] = operation.spokenRange ?? [-1, -1];
+        // Words read along with the one before, like the amount after "R$", take its time
+        wordTimes[operation.expectedIndex] = operation.spokenRange
+          ? { start: spokenTimings[first]?.start ?? at, end: spokenTimings[last]?.end ?? at }
+          : (wordTimes[operation.expectedIndex - 1] ?? { start: at, end: at });
+        // A word misread earlier and now read right was corrected by the child
+        const attempt = findMiscue(miscues, operation.expectedIndex, ["substitution"]);
+        if (attempt) miscues[miscues.indexOf(attempt)] = { ...attempt, type: "self-correction", at };
+        return;
+      }
+      case "substitution": {
+        // Only the first attempt at a word is kept, later ones are retries
+        if (!findMiscue(miscues, operation.expectedIndex, ["substitution", "teacher-assisted"])) {
+          miscues.push({ type: "substitution", wordIndex: operation.expectedIndex, spoken: operation.spoken, at });
+        }
+        return;
+      }
+      case "omission": {
+        if (!findMiscue(miscues, operation.expectedIndex, ["substitution", "teacher-assisted"])) {
+          miscues.push({ type: "omission", wordIndex: operation.expectedIndex, at });
+        }
+        return;
+      }
+    }
+  });
+
+  return {
+    ...session,
+    endWordIndex: Math.max(session.endWordIndex, alignment.nextIndex),
+    transcripts: [...session.transcripts, transcript],
+    miscues,
+    wordTimes,
+  };
+};
+
+// The microphone was turned on or off
+export const recordListening = (session: ReadingSession, isListening: boolean): ReadingSession => {
+  const periods = session.listeningPeriods;
+  const last = periods[periods.length - 1];
+  const isOpen = last !== undefined && last.end === undefined;
+  if (isListening === isOpen) return session;
+
+  const now = Date.now();
+  return {
+    ...session,
+    listeningPeriods: isListening ? [...periods, { start: now }] : [...periods.slice(0, -1), { ...last, end: now }],
+  };
+};
+
+// The child asked to hear a word they had not read yet
+export const recordTeacherAssist = (session: ReadingSession, wordIndex: number): ReadingSession => {
+  if (wordIndex < session.endWordIndex || findMiscue(session.miscues, wordIndex, ["teacher-assisted"])) {
+    return session;
+  }
+  return {
+    ...session,
+    miscues: [
+      // Being told the word replaces a failed attempt at it
+      ...session.miscues.filter((miscue) => !(miscue.wordIndex === wordIndex && miscue.type === "substitution")),
+      { type: "teacher-assisted", wordIndex, at: Date.now() },
+    ],
+  };
+};
+
+// A hint was given on a word the child was stuck on. Hearing the word counts
+// as being told it.
+export const recordHint = (session: ReadingSession, wordIndex: number, level: HintLevel): ReadingSession => {
+  const withHint = { ...session, hints: [...session.hints, { level, wordIndex, at: Date.now() }] };
+  return level === "spoken" ? recordTeacherAssist(withHint, wordIndex) : withHint;
+};
+
+export const finishSession = (session: ReadingSession, endWordIndex: number): ReadingSession => ({
+  ...recordListening(session, false),
+  endWordIndex,
+  endedAt: Date.now(),
+});
+
+export interface RunningRecordSummary {
+  wordsRead: number;
+  errors: number;
+  selfCorrections: number;
+  repetitions: number;
+  // Share of the words read without an error, 0-1
+  accuracy: number;
+  // Self-corrections per error and self-correction, written 1:n; undefined without self-corrections
+  selfCorrectionRate?: number;
+  // Words read as another word, including the ones the child corrected
+  substitutions: { wordIndex: number; expected: string; spoken: string; selfCorrected: boolean }[];
+}
+
+export const summarizeSession = (session: ReadingSession): RunningRecordSummary => {
+  const count = (types: MiscueType[]) => session.miscues.filter((miscue) => types.includes(miscue.type)).length;
+  const wordsRead = Math.max(0, session.endWordIndex - session.startWordIndex);
+  const errors = count(ERROR_TYPES);
+  const selfCorrections = count(["self-correction"]);
+
+  return {
+    wordsRead,
+    errors,
+    selfCorrections,
+    repetitions: count(["repetition"]),
+    accuracy: wordsRead > 0 ? Math.max(0, wordsRead - errors) / wordsRead : 1,
+    selfCorrectionRate: selfCorrections > 0 ? Math.round((errors + selfCorrections) / selfCorrections) : undefined,
+    substitutions: session.miscues
+      .filter((miscue) => miscue.type === "substitution" || miscue.type === "self-correction")
+      .map((miscue) => ({
+        wordIndex: miscue.wordIndex,
+        expected: session.words[miscue.wordIndex],
+        spoken: miscue.spoken ?? "",
+        selfCorrected: miscue.type === "self-correction",
+      }))
+      .sort((a, b) => a.wordIndex - b.wordIndex),
+  };
+};
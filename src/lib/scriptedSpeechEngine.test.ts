@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { RecognitionEngine } from "./recognitionEngine";
+import {
+  createScriptedSpeechEngine,
+  parseRecognitionScript,
+  type RecognitionScriptStep,
+} from "./scriptedSpeechEngine";
+
+describe("parseRecognitionScript", () => {
+  it("accepts every step type", () => {
+    const script = parseRecognitionScript(
+      {
+        steps: [
+          { type: "interim", transcript: "era" },
+          { type: "final", transcript: "era uma vez", alternatives: [{ transcript: "era uma fez", confidence: 0.4 }] },
+          { type: "error", code: "network" },
+          { type: "restart", delay: 50 },
+          { type: "silence", delay: 1000 },
+          { type: "end" },
+        ],
+      },
+      "teste"
+    );
+    expect(script.steps.map((step) => step.type)).toEqual(["interim", "final", "error", "restart", "silence", "end"]);
+  });
+
+  it("names the step and field that are wrong", () => {
+    expect(() =>
+      parseRecognitionScript({ steps: [{ type: "final", transcript: "oi", confidence: 2 }] }, "teste")
+    ).toThrow(/Invalid recognition script "teste":\n {2}- steps\.0\.confidence/);
+    expect(() => parseRecognitionScript({ steps: [{ type: "cough" }] }, "teste")).toThrow(/steps\.0\.type/);
+    expect(() => parseRecognitionScript({ steps: [], extra: true }, "teste")).toThrow(/Unrecognized key/);
+  });
+});
+
+describe("createScriptedSpeechEngine", () => {
+  let log: string[];
+  let engine: RecognitionEngine;
+
+  // Plays the steps to the end and returns what the engine reported
+  const play = async (steps: RecognitionScriptStep[]) => {
+    vi.stubGlobal("fetch", async () => ({ ok: true, json: async () => ({ steps }) }));
+    engine = createScriptedSpeechEngine("/scripts/teste.json")(
+      { language: "pt-BR", maxAlternatives: 3 },
+      {
+        onStart: () => log.push("start"),
+        onRestart: (attempt) => log.push(`restart ${attempt}`),
+        onEnd: () => log.push("end"),
+        onResult: (result) => log.push(`${result.isFinal ? "final" : "interim"} ${result.transcript}`),
+        onError: (error) => log.push(`${error.fatal ? "fatal" : "error"} ${error.code}`),
+      }
+    );
+    engine.start();
+    await vi.runAllTimersAsync();
+    return log;
+  };
+
+  beforeEach(() => {
+    log = [];
+    vi.useFakeTimers();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    engine.dispose();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("replays results in order", async () => {
+    expect(
+      await play([
+        { type: "interim", transcript: "Era uma" },
+        { type: "final", transcript: "Era uma vez" },
+      ])
+    ).toEqual(["start", "interim era uma", "final era uma vez"]);
+  });
+
+  it("drops the errors the Web Speech engine does not report", async () => {
+    expect(
+      await play([
+        { type: "error", code: "aborted" },
+        { type: "error", code: "no-speech" },
+        { type: "error", code: "network" },
+        { type: "final", transcript: "gato" },
+      ])
+    ).toEqual(["start", "final gato"]);
+  });
+
+  it("reports other errors and stops on fatal ones", async () => {
+    expect(
+      await play([
+        { type: "error", code: "language-not-supported" },
+        { type: "error", code: "not-allowed" },
+        { type: "final", transcript: "gato" },
+      ])
+    ).toEqual(["start", "error language-not-supported", "fatal not-allowed", "end"]);
+  });
+
+  it("restarts like the Web Speech engine and carries on once started", async () => {
+    expect(
+      await play([
+        { type: "restart", delay: 2000 },
+        { type: "restart", delay: 100 },
+        { type: "final", transcript: "gato" },
+      ])
+    ).toEqual(["start", "restart 0", "start", "restart 1", "start", "final gato"]);
+  });
+
+  it("gives up after too many quick restarts in a row", async () => {
+    const steps: RecognitionScriptStep[] = Array.from({ length: 8 }, () => ({ type: "restart", delay: 10 }));
+    const events = await play(steps);
+    expect(events.slice(-2)).toEqual(["fatal restart-loop", "end"]);
+    expect(events.filter((event) => event.startsWith("restart"))).toHaveLength(5);
+  });
+
+  it("pauses on stop and carries on from the next step", async () => {
+    vi.stubGlobal("fetch", async () => ({
+      ok: true,
+      json: async () => ({
+        steps: [
+          { type: "final", delay: 100, transcript: "um" },
+          { type: "final", delay: 100, transcript: "dois" },
+        ],
+      }),
+    }));
+    engine = createScriptedSpeechEngine("/scripts/teste.json")(
+      { language: "pt-BR", maxAlternatives: 1 },
+      { onResult: (result) => log.push(result.transcript), onEnd: () => log.push("end") }
+    );
+    engine.start();
+    await vi.advanceTimersByTimeAsync(150);
+    engine.stop();
+    expect(log).toEqual(["um", "end"]);
+    engine.start();
+    await vi.runAllTimersAsync();
+    expect(log).toEqual(["um", "end", "dois"]);
+  });
+});
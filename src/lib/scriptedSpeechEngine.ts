@@ -0,0 +1,226 @@
+import { z } from "zod";
+import type { RecognitionEngineFactory } from "./recognitionEngine";
+import {
+  CRITICAL_ERRORS,
+  MAX_QUICK_RESTARTS,
+  QUICK_RESTART_DURATION,
+  RESTART_DELAY,
+  RESTART_LOOP_MESSAGE,
+  UNREPORTED_ERRORS,
+} from "./webSpeechEngine";
+
+// Fake recognition engine that replays a script of timed results, errors,
+// restarts and silences the way webSpeechEngine reports them, so recognition
+// bugs can be reproduced and end-to-end tests run without a child reading.
+// Selected with ?recognitionScript=<name> in development (see
+// docs/speech-recognition.md).
+
+const stepSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("interim"), delay: z.number().min(0).optional(), transcript: z.string() }).strict(),
+  z
+    .object({
+      type: z.literal("final"),
+      delay: z.number().min(0).optional(),
+      transcript: z.string(),
+      confidence: z.number().min(0).max(1).optional(),
+      // Further hypotheses after the transcript, best first
+      alternatives: z
+        .array(z.object({ transcript: z.string(), confidence: z.number().min(0).max(1) }).strict())
+        .optional(),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal("error"),
+      delay: z.number().min(0).optional(),
+      code: z.string().min(1),
+      message: z.string().optional(),
+      fatal: z.boolean().optional(),
+    })
+    .strict(),
+  // The recognition session ends and a new one starts, as after each
+  // utterance in Safari; the script carries on once it has started
+  z.object({ type: z.literal("restart"), delay: z.number().min(0).optional() }).strict(),
+  // Nothing is heard for `delay` milliseconds
+  z.object({ type: z.literal("silence"), delay: z.number().min(0) }).strict(),
+  // The engine stops listening by itself, as after a lost microphone
+  z.object({ type: z.literal("end"), delay: z.number().min(0).optional() }).strict(),
+]);
+
+const scriptSchema = z
+  .object({
+    description: z.string().optional(),
+    steps: z.array(stepSchema),
+  })
+  .strict();
+
+export type RecognitionScriptStep = z.infer<typeof stepSchema>;
+export type RecognitionScript = z.infer<typeof scriptSchema>;
+
+// Wait before a step that does not give its own delay
+const DEFAULT_STEP_DELAY = 500;
+
+export const RECOGNITION_SCRIPT_PARAM = "recognitionScript";
+
+// Scripts bundled under src/data/recognitionScripts, by file name
+const scriptFiles = import.meta.glob<unknown>("../data/recognitionScripts/*.json", { import: "default" });
+
+export const parseRecognitionScript = (data: unknown, source: string): RecognitionScript => {
+  const parsed = scriptSchema.safeParse(data);
+  if (parsed.success) return parsed.data;
+  const issues = parsed.error.issues.map((issue) => `  - ${issue.path.join(".") || "(root)"}: ${issue.message}`);
+  throw new Error(`Invalid recognition script "${source}":\n${issues.join("\n")}`);
+};
+
+const loadRecognitionScript = async (name: string): Promise<RecognitionScript> => {
+  if (name.includes("/")) {
+    const response = await fetch(name);
+    if (!response.ok) throw new Error(`Could not fetch recognition script "${name}": ${response.status}`);
+    return parseRecognitionScript(await response.json(), name);
+  }
+
+  const load = scriptFiles[`../data/recognitionScripts/${name}.json`];
+  if (!load) throw new Error(`Unknown recognition script "${name}"`);
+  return parseRecognitionScript(await load(), name);
+};
+
+// Script named in the page URL, when scripted recognition is allowed. Only
+// development builds allow it, unless VITE_SCRIPTED_RECOGNITION is "true",
+// e.g. to run end-to-end tests against a production build.
+export const requestedRecognitionScript = (): string | undefined => {
+  const allowed = import.meta.env.DEV || import.meta.env.VITE_SCRIPTED_RECOGNITION === "true";
+  if (!allowed || typeof window === "undefined") return undefined;
+  return new URLSearchParams(window.location.search).get(RECOGNITION_SCRIPT_PARAM) ?? undefined;
+};
+
+// Stopping pauses the script; starting again carries on with the next step
+export const createScriptedSpeechEngine =
+  (scriptName: string): RecognitionEngineFactory =>
+  (_options, events) => {
+    let scriptPromise: Promise<RecognitionScript> | undefined;
+    let nextStep = 0;
+    let isListening = false;
+    // Increases on every start so a script still loading after stop() does not play twice
+    let run = 0;
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    let restartTimeout: ReturnType<typeof setTimeout> | undefined;
+    let consecutiveRestarts = 0;
+    let lastStartTime = 0;
+
+    const finishListening = () => {
+      clearTimeout(timeout);
+      clearTimeout(restartTimeout);
+      if (!isListening) return;
+      isListening = false;
+      events.onEnd?.();
+    };
+
+    const playStep = (step: RecognitionScriptStep) => {
+      const timestamp = Date.now();
+      switch (step.type) {
+        case "interim":
+          events.onResult?.({
+            transcript: step.transcript.toLowerCase(),
+            alternatives: [{ transcript: step.transcript.toLowerCase(), confidence: 1.0 }],
+            isFinal: false,
+            timestamp,
+          });
+          break;
+        case "final": {
+          const alternatives = [
+            { transcript: step.transcript, confidence: step.confidence ?? 1.0 },
+            ...(step.alternatives ?? []),
+          ].map(({ transcript, confidence }) => ({
+            transcript: transcript.toLowerCase(),
+            confidence: confidence ?? 1.0,
+          }));
+          events.onResult?.({ transcript: alternatives[0].transcript, alternatives, isFinal: true, timestamp });
+          break;
+        }
+        case "error": {
+          const fatal = step.fatal ?? CRITICAL_ERRORS.includes(step.code);
+          if (fatal) {
+            events.onError?.({ code: step.code, message: step.message, fatal: true });
+            finishListening();
+          } else if (UNREPORTED_ERRORS.includes(step.code)) {
+            console.warn(`Scripted recognition error ignored: ${step.code}`);
+          } else {
+            events.onError?.({ code: step.code, message: step.message, fatal: false });
+          }
+          break;
+        }
+        case "end":
+          finishListening();
+          break;
+        case "silence":
+          break;
+      }
+    };
+
+    // Ends the session and starts the next one after the same delay and with
+    // the same restart-loop guard as webSpeechEngine
+    const restart = (currentRun: number, onStarted: () => void) => {
+      const duration = Date.now() - lastStartTime;
+      consecutiveRestarts = duration < QUICK_RESTART_DURATION ? consecutiveRestarts + 1 : 0;
+      if (consecutiveRestarts > MAX_QUICK_RESTARTS) {
+        events.onError?.({ code: "restart-loop", message: RESTART_LOOP_MESSAGE, fatal: true });
+        finishListening();
+        return;
+      }
+
+      events.onRestart?.(consecutiveRestarts);
+      restartTimeout = setTimeout(() => {
+        if (!isListening || currentRun !== run) return;
+        lastStartTime = Date.now();
+        events.onStart?.();
+        onStarted();
+      }, RESTART_DELAY);
+    };
+
+    const scheduleNext = (script: RecognitionScript, currentRun: number) => {
+      const step = script.steps[nextStep];
+      // Past the end of the script the engine keeps listening to silence
+      if (!step || !isListening || currentRun !== run) return;
+      timeout = setTimeout(() => {
+        nextStep++;
+        if (step.type === "restart") {
+          restart(currentRun, () => scheduleNext(script, currentRun));
+          return;
+        }
+        playStep(step);
+        scheduleNext(script, currentRun);
+      }, step.delay ?? DEFAULT_STEP_DELAY);
+    };
+
+    return {
+      isSupported: true,
+      usesMicrophone: false,
+
+      start: () => {
+        if (isListening) return;
+        isListening = true;
+        run++;
+        const currentRun = run;
+        consecutiveRestarts = 0;
+        lastStartTime = Date.now();
+        events.onStart?.();
+        scriptPromise ??= loadRecognitionScript(scriptName);
+        scriptPromise.then(
+          (script) => scheduleNext(script, currentRun),
+          (error) => {
+            console.error(error);
+            events.onError?.({ code: "script-unavailable", message: String(error), fatal: true });
+            finishListening();
+          }
+        );
+      },
+
+      stop: finishListening,
+
+      dispose: () => {
+        isListening = false;
+        clearTimeout(timeout);
+        clearTimeout(restartTimeout);
+      },
+    };
+  };
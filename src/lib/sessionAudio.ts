@@ -0,0 +1,85 @@
+// Audio of reading sessions, recorded while the microphone was on so adults
+// can hear how the child read. Recordings are too large for local storage and
+// live in IndexedDB, keyed by the id of the session they belong to.
+
+// Stretch of time the recorder was recording, in epoch milliseconds; the
+// recording is these stretches back to back
+export interface RecordedSegment {
+  start: number;
+  end: number;
+}
+
+export interface SessionRecording {
+  audio: Blob;
+  segments: RecordedSegment[];
+}
+
+export interface SessionAudio extends SessionRecording {
+  sessionId: string;
+  // Epoch milliseconds
+  recordedAt: number;
+}
+
+const DATABASE_NAME = "leiacomigo";
+const DATABASE_VERSION = 1;
+const AUDIO_STORE = "session-audio";
+
+let databasePromise: Promise<IDBDatabase> | undefined;
+
+const openDatabase = () => {
+  databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(AUDIO_STORE, { keyPath: "sessionId" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      databasePromise = undefined;
+      reject(request.error);
+    };
+  });
+  return databasePromise;
+};
+
+// Runs one request against the audio store and resolves with its result
+const withAudioStore = async <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = makeRequest(database.transaction(AUDIO_STORE, mode).objectStore(AUDIO_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveSessionAudio = async (sessionId: string, recording: SessionRecording) => {
+  try {
+    const record: SessionAudio = { sessionId, ...recording, recordedAt: Date.now() };
+    await withAudioStore("readwrite", (store) => store.put(record));
+  } catch (error) {
+    console.error("Could not save session audio:", error);
+  }
+};
+
+export const loadSessionAudio = async (sessionId: string): Promise<SessionAudio | undefined> => {
+  try {
+    return await withAudioStore<SessionAudio | undefined>("readonly", (store) => store.get(sessionId));
+  } catch (error) {
+    console.error("Could not read session audio:", error);
+    return undefined;
+  }
+};
+
+export const deleteSessionAudio = async (sessionId: string) => {
+  try {
+    await withAudioStore("readwrite", (store) => store.delete(sessionId));
+  } catch (error) {
+    console.error("Could not delete session audio:", error);
+  }
+};
+
+// Milliseconds into the recording at which an instant was recorded
+export const audioOffsetAt = (segments: RecordedSegment[], time: number): number =>
+  segments.reduce((offset, segment) => offset + Math.max(0, Math.min(segment.end, time) - segment.start), 0);
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { numberToWords, ordinalToWords, toSpokenForm, toSpokenWords } from "./spokenForm";
+
+const spoken = (text: string) => toSpokenForm(text.split(" ")).join(" ");
+
+describe("numberToWords", () => {
+  it.each([
+    [0, "zero"],
+    [16, "dezesseis"],
+    [21, "vinte e um"],
+    [100, "cem"],
+    [101, "cento e um"],
+    [1000, "mil"],
+    [1001, "mil e um"],
+    [2310, "dois mil trezentos e dez"],
+    [1500, "mil e quinhentos"],
+  ])("says %i as %s", (n, words) => {
+    expect(numberToWords(n).join(" ")).toBe(words);
+  });
+
+  it("agrees with feminine nouns", () => {
+    expect(numberToWords(2, "feminine").join(" ")).toBe("duas");
+    expect(numberToWords(201, "feminine").join(" ")).toBe("duzentas e uma");
+    expect(numberToWords(2000, "feminine").join(" ")).toBe("duas mil");
+  });
+});
+
+describe("ordinalToWords", () => {
+  it("says ordinals in both genders", () => {
+    expect(ordinalToWords(1).join(" ")).toBe("primeiro");
+    expect(ordinalToWords(23, "feminine").join(" ")).toBe("vigésima terceira");
+  });
+});
+
+describe("toSpokenForm", () => {
+  it.each([
+    ["2 casas", "duas casas"],
+    ["2 dias", "dois dias"],
+    ["21 gatos", "vinte e um gatos"],
+    ["1.000 estrelas", "mil estrelas"],
+    ["1ª vez", "primeira vez"],
+    ["10h30", "dez e meia"],
+    ["10h15", "dez e quinze"],
+    ["1h", "uma hora"],
+    ["R$ 5", "cinco reais"],
+    ["R$ 5,50", "cinco reais e cinquenta centavos"],
+    ["R$1", "um real"],
+    ["50%", "cinquenta por cento"],
+    ["2,5 litros", "dois vírgula cinco litros"],
+    ["o Sr. Lobo", "o senhor Lobo"],
+  ])("says %s as %s", (text, words) => {
+    expect(spoken(text)).toBe(words);
+  });
+
+  it("keeps words and numbers too big to say as written", () => {
+    expect(spoken("era uma vez")).toBe("era uma vez");
+    expect(spoken("1234567")).toBe("1234567");
+  });
+});
+
+describe("toSpokenWords", () => {
+  it("gives the amount after R$ to the R$ token", () => {
+    expect(toSpokenWords(["custa", "R$", "5"])).toEqual([["custa"], ["cinco", "reais"], []]);
+  });
+});
@@ -0,0 +1,223 @@
+// Canonical spoken form of the tokens a recognizer or a story may write with
+// symbols: numbers ("2" → "dois"), ordinals ("1ª" → "primeira"), abbreviations
+// ("Sr." → "senhor"), money ("R$ 5" → "cinco reais") and times ("10h15" →
+// "dez e quinze"). Both sides of a comparison are brought to this form so the
+// spelling the recognizer picked does not matter.
+
+export type Gender = "masculine" | "feminine";
+
+const UNITS = ["zero", "um", "dois", "três", "quatro", "cinco", "seis", "sete", "oito", "nove"];
+const TEENS = ["dez", "onze", "doze", "treze", "catorze", "quinze", "dezesseis", "dezessete", "dezoito", "dezenove"];
+const TENS = ["", "", "vinte", "trinta", "quarenta", "cinquenta", "sessenta", "setenta", "oitenta", "noventa"];
+const HUNDREDS = [
+  "",
+  "cento",
+  "duzentos",
+  "trezentos",
+  "quatrocentos",
+  "quinhentos",
+  "seiscentos",
+  "setecentos",
+  "oitocentos",
+  "novecentos",
+];
+
+const ORDINAL_UNITS = ["", "primeiro", "segundo", "terceiro", "quarto", "quinto", "sexto", "sétimo", "oitavo", "nono"];
+const ORDINAL_TENS = [
+  "",
+  "décimo",
+  "vigésimo",
+  "trigésimo",
+  "quadragésimo",
+  "quinquagésimo",
+  "sexagésimo",
+  "septuagésimo",
+  "octogésimo",
+  "nonagésimo",
+];
+
+const ABBREVIATIONS: Record<string, string[]> = {
+  sr: ["senhor"],
+  sra: ["senhora"],
+  srta: ["senhorita"],
+  dr: ["doutor"],
+  dra: ["doutora"],
+  prof: ["professor"],
+  profa: ["professora"],
+  sto: ["santo"],
+  sta: ["santa"],
+  av: ["avenida"],
+  km: ["quilômetros"],
+  kg: ["quilos"],
+  "%": ["por", "cento"],
+};
+
+// Nouns ending in -a that are masculine, so "2 dias" is "dois dias"
+const MASCULINE_A_NOUNS = new Set(["dia", "mapa", "planeta", "problema", "sofa", "poeta", "cinema", "tema"]);
+
+// Numbers above this are left as written
+const MAX_SPOKEN_NUMBER = 999_999;
+
+const withGender = (word: string, gender: Gender) => {
+  if (gender === "masculine") return word;
+  if (word === "um") return "uma";
+  if (word === "dois") return "duas";
+  return word.replace(/os$/, "as").replace(/o$/, "a");
+};
+
+const belowThousand = (n: number, gender: Gender): string[] => {
+  if (n === 100) return ["cem"];
+
+  const words: string[] = [];
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  if (hundreds > 0) words.push(withGender(HUNDREDS[hundreds], gender));
+  if (rest === 0) return words.length > 0 ? words : ["zero"];
+  if (words.length > 0) words.push("e");
+
+  if (rest < 10) words.push(withGender(UNITS[rest], gender));
+  else if (rest < 20) words.push(TEENS[rest - 10]);
+  else {
+    words.push(TENS[Math.floor(rest / 10)]);
+    if (rest % 10 > 0) words.push("e", withGender(UNITS[rest % 10], gender));
+  }
+  return words;
+};
+
+// "mil e um", "dois mil trezentos e dez"; thousands agree with the noun too,
+// as in "duas mil casas"
+export const numberToWords = (n: number, gender: Gender = "masculine"): string[] => {
+  if (n < 1000) return belowThousand(n, gender);
+
+  const thousands = Math.floor(n / 1000);
+  const rest = n % 1000;
+  const words = thousands === 1 ? ["mil"] : [...belowThousand(thousands, gender), "mil"];
+  if (rest === 0) return words;
+
+  // "e" joins the last group only when it is a round hundred or below a hundred
+  if (rest < 100 || rest % 100 === 0) words.push("e");
+  return [...words, ...belowThousand(rest, gender)];
+};
+
+export const ordinalToWords = (n: number, gender: Gender = "masculine"): string[] => {
+  if (n === 100) return [withGender("centésimo", gender)];
+  const words = [ORDINAL_TENS[Math.floor(n / 10)], ORDINAL_UNITS[n % 10]].filter((word) => word.length > 0);
+  return words.map((word) => withGender(word, gender));
+};
+
+// Gender of the noun after a number, guessed from its ending
+const genderOf = (noun: string | undefined): Gender => {
+  if (!noun) return "masculine";
+  const singular = noun
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z]/g, "")
+    .replace(/s$/, "");
+  if (MASCULINE_A_NOUNS.has(singular)) return "masculine";
+  return /(a|dade|gem|cao|sao)$/.test(singular) ? "feminine" : "masculine";
+};
+
+// Punctuation around a token that is not part of its spoken form
+const trimToken = (token: string) => token.replace(/^[("“'«]+|[.,!?;:…)"”'»]+$/g, "");
+
+const parseNumber = (text: string): number | undefined => {
+  // Thousands written with a dot, as in "1.000"
+  if (!/^\d{1,3}(\.\d{3})*$|^\d+$/.test(text)) return undefined;
+  const n = Number(text.replace(/\./g, ""));
+  return n <= MAX_SPOKEN_NUMBER ? n : undefined;
+};
+
+const decimalToWords = (text: string, gender: Gender): string[] | undefined => {
+  const match = /^(\d+),(\d+)$/.exec(text);
+  if (!match) return undefined;
+  const [, whole, fraction] = match;
+  const wholeNumber = parseNumber(whole);
+  const fractionNumber = parseNumber(fraction);
+  if (wholeNumber === undefined || fractionNumber === undefined) return undefined;
+  return [...numberToWords(wholeNumber, gender), "vírgula", ...numberToWords(fractionNumber)];
+};
+
+const moneyToWords = (amount: string): string[] | undefined => {
+  const match = /^(\d{1,3}(?:\.\d{3})*|\d+)(?:,(\d{2}))?$/.exec(amount);
+  if (!match) return undefined;
+  const reais = parseNumber(match[1]);
+  const centavos = match[2] ? Number(match[2]) : 0;
+  if (reais === undefined) return undefined;
+
+  const words: string[] = [];
+  if (reais > 0 || centavos === 0) words.push(...numberToWords(reais), reais === 1 ? "real" : "reais");
+  if (centavos > 0) {
+    if (words.length > 0) words.push("e");
+    words.push(...numberToWords(centavos), centavos === 1 ? "centavo" : "centavos");
+  }
+  return words;
+};
+
+// "10h", "10h30", "10:30"; half past is said "e meia"
+const timeToWords = (text: string): string[] | undefined => {
+  const match = /^(\d{1,2})(?:h|:)(\d{2})?(?:min)?$/.exec(text);
+  if (!match) return undefined;
+  const hours = Number(match[1]);
+  const minutes = match[2] ? Number(match[2]) : 0;
+  if (hours > 23 || minutes > 59) return undefined;
+
+  const words = numberToWords(hours, "feminine");
+  if (minutes === 0) return [...words, hours === 1 ? "hora" : "horas"];
+  return [...words, "e", ...(minutes === 30 ? ["meia"] : numberToWords(minutes))];
+};
+
+// Spoken form of one token; the following token gives the gender of numbers
+const tokenToWords = (token: string, next: string | undefined): string[] => {
+  const core = trimToken(token);
+  const lower = core.toLowerCase();
+
+  const abbreviation = ABBREVIATIONS[lower.replace(/\.$/, "")];
+  if (abbreviation) return abbreviation;
+
+  const ordinal = /^(\d{1,3})\.?([ºªoa°])$/.exec(lower);
+  if (ordinal && Number(ordinal[1]) <= 100) {
+    return ordinalToWords(Number(ordinal[1]), ordinal[2] === "ª" || ordinal[2] === "a" ? "feminine" : "masculine");
+  }
+
+  const percent = /^(\d+(?:,\d+)?)%$/.exec(lower);
+  if (percent) return [...tokenToWords(percent[1], undefined), "por", "cento"];
+
+  const money = /^r\$(.+)$/.exec(lower);
+  if (money) return moneyToWords(money[1]) ?? [token];
+
+  const time = timeToWords(lower);
+  if (time) return time;
+
+  const gender = genderOf(next);
+  const number = parseNumber(lower);
+  if (number !== undefined) return numberToWords(number, gender);
+
+  return decimalToWords(lower, gender) ?? [token];
+};
+
+// Spoken form of each token, in the same order. Word tokens pass through
+// unchanged, symbol tokens may become several words; in "R$ 5" the amount is
+// said with the "R$" and its own token becomes empty.
+export const toSpokenWords = (tokens: string[]): string[][] => {
+  const words: string[][] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    // "R$ 5,50" arrives as two tokens
+    if (trimToken(token).toLowerCase() === "r$" && i + 1 < tokens.length) {
+      const money = moneyToWords(trimToken(tokens[i + 1]));
+      if (money) {
+        words.push(money, []);
+        i++;
+        continue;
+      }
+    }
+
+    words.push(tokenToWords(token, tokens[i + 1]));
+  }
+  return words;
+};
+
+// Rewrites a list of tokens into spoken words
+export const toSpokenForm = (tokens: string[]): string[] => toSpokenWords(tokens).flat();
@@ -0,0 +1,71 @@
+// Story domain model shared by the catalog, the reader and every story tool
+
+export type StoryDifficulty = "easy" | "medium" | "hard";
+
+// Themes used to group the catalog, stories may carry any other slug too
+export const STORY_TAG_LABELS: Record<string, string> = {
+  animais: "Animais",
+  "contos-de-fadas": "Contos de Fadas",
+  fabulas: "Fábulas",
+  ciencia: "Ciência",
+  aventura: "Aventura",
+  amizade: "Amizade",
+};
+
+export const storyTagLabel = (tag: string): string =>
+  STORY_TAG_LABELS[tag] ?? tag.charAt(0).toUpperCase() + tag.slice(1).replace(/-/g, " ");
+
+export interface ReadingLevel {
+  // School year the story is aimed at (1º ano = 1)
+  grade?: number;
+  minAge?: number;
+  maxAge?: number;
+  // Free-form level label from a leveling system, e.g. "A" or "Nível 2"
+  label?: string;
+}
+
+export interface StoryMetadata {
+  emoji: string;
+  readingLevel?: ReadingLevel;
+}
+
+export interface WordAnnotation {
+  // Word as written in the sentence, matched ignoring case and accents
+  word: string;
+  syllables?: string[];
+  definition?: string;
+  pronunciation?: string;
+}
+
+export interface StorySentence {
+  text: string;
+  annotations: WordAnnotation[];
+}
+
+export interface StoryParagraph {
+  sentences: StorySentence[];
+}
+
+export interface StoryIllustration {
+  emoji?: string;
+  src?: string;
+  alt?: string;
+}
+
+export interface StoryPage {
+  paragraphs: StoryParagraph[];
+  illustration?: StoryIllustration;
+}
+
+export interface Story {
+  id: string;
+  title: string;
+  description: string;
+  locale: string;
+  difficulty: StoryDifficulty;
+  tags: string[];
+  // Whole story as plain text, sentences joined by a space
+  text: string;
+  pages: StoryPage[];
+  metadata: StoryMetadata;
+}
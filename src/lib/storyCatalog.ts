@@ -0,0 +1,136 @@
+import type { Story, StoryDifficulty } from "./story";
+import { analyzeStory } from "./readability";
+import type { ProgressByStory } from "./readingProgress";
+import { searchStories, type StorySearchResult } from "./storySearch";
+
+// Filters and sort order of the story catalog, kept in the page URL so a
+// filtered list survives reloads and can be shared
+
+export type StoryStatusFilter = "completed" | "unread";
+export type StoryLengthFilter = "short" | "medium" | "long";
+export type StorySort = "relevance" | "title" | "difficulty" | "recent";
+
+export interface CatalogFilters {
+  query: string;
+  tag?: string;
+  difficulties: StoryDifficulty[];
+  status?: StoryStatusFilter;
+  length?: StoryLengthFilter;
+  sort: StorySort;
+}
+
+export const STATUS_LABELS: Record<StoryStatusFilter, string> = {
+  completed: "Lidas",
+  unread: "Por ler",
+};
+
+export const LENGTH_LABELS: Record<StoryLengthFilter, string> = {
+  short: "Curtas",
+  medium: "Médias",
+  long: "Longas",
+};
+
+export const SORT_LABELS: Record<StorySort, string> = {
+  relevance: "Relevância",
+  title: "Título",
+  difficulty: "Dificuldade",
+  recent: "Lidas recentemente",
+};
+
+// Upper word count of the short and medium lengths
+const LENGTH_LIMITS = { short: 40, medium: 120 };
+
+const DIFFICULTY_ORDER: StoryDifficulty[] = ["easy", "medium", "hard"];
+
+const isOneOf = <T extends string>(values: readonly T[], value: string | null): value is T =>
+  value !== null && (values as readonly string[]).includes(value);
+
+export const storyLength = (story: Story): StoryLengthFilter => {
+  const { wordCount } = analyzeStory(story);
+  if (wordCount <= LENGTH_LIMITS.short) return "short";
+  if (wordCount <= LENGTH_LIMITS.medium) return "medium";
+  return "long";
+};
+
+export const parseCatalogFilters = (params: URLSearchParams): CatalogFilters => {
+  const status = params.get("status");
+  const length = params.get("length");
+  const sort = params.get("sort");
+
+  return {
+    query: params.get("q") ?? "",
+    tag: params.get("tag") || undefined,
+    difficulties: (params.get("difficulty") ?? "")
+      .split(",")
+      .filter((value): value is StoryDifficulty => isOneOf(DIFFICULTY_ORDER, value)),
+    status: isOneOf(Object.keys(STATUS_LABELS) as StoryStatusFilter[], status) ? status : undefined,
+    length: isOneOf(Object.keys(LENGTH_LABELS) as StoryLengthFilter[], length) ? length : undefined,
+    sort: isOneOf(Object.keys(SORT_LABELS) as StorySort[], sort) ? sort : "relevance",
+  };
+};
+
+// Inverse of parseCatalogFilters, leaving defaults out of the URL
+export const catalogFiltersToParams = (filters: CatalogFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (filters.query) params.set("q", filters.query);
+  if (filters.tag) params.set("tag", filters.tag);
+  if (filters.difficulties.length > 0) params.set("difficulty", filters.difficulties.join(","));
+  if (filters.status) params.set("status", filters.status);
+  if (filters.length) params.set("length", filters.length);
+  if (filters.sort !== "relevance") params.set("sort", filters.sort);
+  return params;
+};
+
+// Number of filters set in the filter sheet, for the badge on its button
+export const countSheetFilters = (filters: CatalogFilters): number =>
+  filters.difficulties.length +
+  (filters.status ? 1 : 0) +
+  (filters.length ? 1 : 0) +
+  (filters.sort !== "relevance" ? 1 : 0);
+
+// Every tag used in the catalog, most common first
+export const collectTags = (stories: Story[]): string[] => {
+  const counts = new Map<string, number>();
+  stories.forEach((story) =>
+    story.tags.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1))
+  );
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([tag]) => tag);
+};
+
+const matchesFilters = (story: Story, filters: CatalogFilters, progress: ProgressByStory) => {
+  if (filters.tag && !story.tags.includes(filters.tag)) return false;
+  if (filters.difficulties.length > 0 && !filters.difficulties.includes(story.difficulty)) return false;
+  if (filters.length && storyLength(story) !== filters.length) return false;
+  if (filters.status) {
+    const completed = progress[story.id]?.completed ?? false;
+    if (completed !== (filters.status === "completed")) return false;
+  }
+  return true;
+};
+
+// Search, filter and sort the catalog. "relevance" keeps the search ranking,
+// or the catalog order when there is no query.
+export const queryCatalog = (
+  stories: Story[],
+  filters: CatalogFilters,
+  progress: ProgressByStory
+): StorySearchResult[] => {
+  const results = searchStories(stories, filters.query).filter((result) =>
+    matchesFilters(result.story, filters, progress)
+  );
+
+  switch (filters.sort) {
+    case "title":
+      return results.sort((a, b) => a.story.title.localeCompare(b.story.title, "pt-BR"));
+    case "difficulty":
+      return results.sort(
+        (a, b) => DIFFICULTY_ORDER.indexOf(a.story.difficulty) - DIFFICULTY_ORDER.indexOf(b.story.difficulty)
+      );
+    case "recent":
+      return results.sort(
+        (a, b) => (progress[b.story.id]?.lastReadAt ?? 0) - (progress[a.story.id]?.lastReadAt ?? 0)
+      );
+    default:
+      return results;
+  }
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { StoryFormatError, parseStory, parseStoryFile, serializeStory } from "./storyFormat";
+
+const storyFiles = import.meta.glob<unknown>("../data/stories/*.json", { eager: true, import: "default" });
+
+const minimalFile = {
+  format: 1,
+  id: "teste",
+  title: "Teste",
+  description: "Uma história de teste.",
+  metadata: { emoji: "📘" },
+  text: "O gato pulou. A bola caiu!",
+};
+
+const issuesOf = (data: unknown) => {
+  try {
+    parseStory(data, "teste");
+  } catch (error) {
+    if (error instanceof StoryFormatError) return error.issues;
+    throw error;
+  }
+  return [];
+};
+
+describe("parseStory", () => {
+  it("turns plain text into one page of sentences", () => {
+    const story = parseStory(minimalFile);
+    expect(story.pages).toHaveLength(1);
+    expect(story.pages[0].paragraphs[0].sentences.map((sentence) => sentence.text)).toEqual([
+      "O gato pulou.",
+      "A bola caiu!",
+    ]);
+    expect(story.text).toBe("O gato pulou. A bola caiu!");
+    expect(story.locale).toBe("pt-BR");
+    expect(story.tags).toEqual([]);
+  });
+
+  it("accepts sentences as bare strings or with annotations", () => {
+    const story = parseStory({
+      ...minimalFile,
+      text: undefined,
+      pages: [
+        {
+          illustration: { emoji: "🐱" },
+          paragraphs: [
+            {
+              sentences: [
+                "O gato pulou.",
+                { text: "Ele era esperto.", annotations: [{ word: "esperto", syllables: ["es", "per", "to"] }] },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+    const [first, second] = story.pages[0].paragraphs[0].sentences;
+    expect(first).toEqual({ text: "O gato pulou.", annotations: [] });
+    expect(second.annotations[0].syllables).toEqual(["es", "per", "to"]);
+  });
+
+  it("reports each problem with its location", () => {
+    expect(issuesOf({ ...minimalFile, format: 2, title: "" }).map((issue) => issue.path)).toEqual([
+      "format",
+      "title",
+    ]);
+    const annotated = {
+      ...minimalFile,
+      text: undefined,
+      pages: [{ paragraphs: [{ sentences: [{ text: "O gato.", annotations: [{ word: "cão" }] }] }] }],
+    };
+    expect(issuesOf(annotated).map((issue) => issue.path)).toEqual([
+      "pages[0].paragraphs[0].sentences[0].annotations[0].word",
+    ]);
+  });
+
+  it("needs exactly one of text or pages", () => {
+    expect(issuesOf({ ...minimalFile, text: undefined })).toHaveLength(1);
+    expect(issuesOf({ ...minimalFile, pages: [{ paragraphs: [{ sentences: ["Oi."] }] }] })).toHaveLength(1);
+  });
+
+  it("rejects unknown keys", () => {
+    expect(issuesOf({ ...minimalFile, author: "Ana" })).toHaveLength(1);
+    expect(issuesOf({ ...minimalFile, metadata: { emoji: "📘", duration: "3 min" } })).toHaveLength(1);
+  });
+
+  it("reports a file that is not JSON", () => {
+    expect(() => parseStoryFile("{ nope", "quebrada.json")).toThrow(StoryFormatError);
+  });
+});
+
+describe("serializeStory", () => {
+  it.each(Object.entries(storyFiles))("round-trips the bundled story %s", (file, data) => {
+    const story = parseStory(data, file);
+    expect(parseStory(serializeStory(story), file)).toEqual(story);
+  });
+});
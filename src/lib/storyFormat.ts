@@ -0,0 +1,250 @@
+import { z } from "zod";
+import { normalizeText } from "./textMatching";
+import type { Story, StoryMetadata, StoryPage } from "./story";
+import { analyzeReadability } from "./readability";
+
+// Parser and validator for story files (format described in docs/story-format.md)
+
+export const STORY_FORMAT_VERSION = 1;
+
+export interface StoryFormatIssue {
+  // Location inside the file, e.g. "pages[0].paragraphs[1].sentences[2]"
+  path: string;
+  message: string;
+}
+
+export class StoryFormatError extends Error {
+  readonly source: string;
+  readonly issues: StoryFormatIssue[];
+
+  constructor(source: string, issues: StoryFormatIssue[]) {
+    super(
+      `Invalid story file "${source}":\n` +
+        issues.map((issue) => `  - ${issue.path || "(root)"}: ${issue.message}`).join("\n")
+    );
+    this.name = "StoryFormatError";
+    this.source = source;
+    this.issues = issues;
+  }
+}
+
+const nonEmptyString = z.string().trim().min(1, "must not be empty");
+
+const annotationSchema = z
+  .object({
+    word: nonEmptyString,
+    syllables: z.array(nonEmptyString).min(1).optional(),
+    definition: nonEmptyString.optional(),
+    pronunciation: nonEmptyString.optional(),
+  })
+  .strict();
+
+// A sentence may be written as a bare string when it has no annotations
+const sentenceSchema = z.preprocess(
+  (value) => (typeof value === "string" ? { text: value } : value),
+  z
+    .object({
+      text: nonEmptyString,
+      annotations: z.array(annotationSchema).default([]),
+    })
+    .strict()
+);
+
+const paragraphSchema = z
+  .object({
+    sentences: z.array(sentenceSchema).min(1, "a paragraph needs at least one sentence"),
+  })
+  .strict();
+
+const illustrationSchema = z
+  .object({
+    emoji: nonEmptyString.optional(),
+    src: nonEmptyString.optional(),
+    alt: nonEmptyString.optional(),
+  })
+  .strict()
+  .refine((illustration) => illustration.emoji || illustration.src, {
+    message: "an illustration needs an emoji or a src",
+  });
+
+const pageSchema = z
+  .object({
+    illustration: illustrationSchema.optional(),
+    paragraphs: z.array(paragraphSchema).min(1, "a page needs at least one paragraph"),
+  })
+  .strict();
+
+const readingLevelSchema = z
+  .object({
+    grade: z.number().int().min(1).max(9).optional(),
+    minAge: z.number().int().min(2).max(14).optional(),
+    maxAge: z.number().int().min(2).max(14).optional(),
+    label: nonEmptyString.optional(),
+  })
+  .strict()
+  .refine((level) => !level.minAge || !level.maxAge || level.minAge <= level.maxAge, {
+    message: "minAge must not be greater than maxAge",
+    path: ["minAge"],
+  });
+
+const storyFileSchema = z
+  .object({
+    format: z.literal(STORY_FORMAT_VERSION, {
+      errorMap: () => ({ message: `format must be ${STORY_FORMAT_VERSION}` }),
+    }),
+    id: z.string().regex(/^[a-z0-9-]+$/i, "id may only contain letters, digits and dashes"),
+    title: nonEmptyString,
+    description: nonEmptyString,
+    locale: z.string().regex(/^[a-z]{2}(-[A-Z]{2})?$/, "locale must look like pt-BR").default("pt-BR"),
+    // Optional override, otherwise derived from the text's readability
+    difficulty: z.enum(["easy", "medium", "hard"]).optional(),
+    tags: z
+      .array(z.string().regex(/^[a-z0-9-]+$/, "tags are lowercase slugs like contos-de-fadas"))
+      .default([]),
+    metadata: z
+      .object({
+        emoji: nonEmptyString,
+        readingLevel: readingLevelSchema.optional(),
+      })
+      .strict(),
+    text: nonEmptyString.optional(),
+    pages: z.array(pageSchema).min(1, "a story needs at least one page").optional(),
+  })
+  .strict()
+  .superRefine((file, ctx) => {
+    if (!file.text === !file.pages) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'exactly one of "text" or "pages" must be given',
+        path: file.text ? ["text"] : [],
+      });
+    }
+
+    // Every annotation must point at a word that exists in its sentence
+    file.pages?.forEach((page, pageIndex) => {
+      page.paragraphs.forEach((paragraph, paragraphIndex) => {
+        paragraph.sentences.forEach((sentence, sentenceIndex) => {
+          const words = sentence.text.split(/\s+/).map(normalizeText);
+          sentence.annotations.forEach((annotation, annotationIndex) => {
+            if (!words.includes(normalizeText(annotation.word))) {
+              ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: `annotated word "${annotation.word}" does not appear in the sentence`,
+                path: [
+                  "pages", pageIndex,
+                  "paragraphs", paragraphIndex,
+                  "sentences", sentenceIndex,
+                  "annotations", annotationIndex,
+                  "word",
+                ],
+              });
+            }
+          });
+        });
+      });
+    });
+  });
+
+// Without strictNullChecks zod infers every key as optional, so the validated
+// pages and metadata are cast back to the domain types below
+type StoryFile = z.infer<typeof storyFileSchema>;
+
+// Render a zod path as "pages[0].paragraphs[1]"
+const formatPath = (path: (string | number)[]): string =>
+  path.reduce<string>(
+    (result, segment) =>
+      typeof segment === "number" ? `${result}[${segment}]` : result ? `${result}.${segment}` : segment,
+    ""
+  );
+
+// Split plain text into sentences, keeping the final punctuation
+export const splitSentences = (text: string): string[] =>
+  text
+    .trim()
+    .split(/(?<=[.!?…])\s+/)
+    .filter((sentence) => sentence.length > 0);
+
+const toPages = (file: StoryFile): StoryPage[] => {
+  if (!file.pages) {
+    return [
+      {
+        paragraphs: [
+          { sentences: splitSentences(file.text).map((text) => ({ text, annotations: [] })) },
+        ],
+      },
+    ];
+  }
+
+  return file.pages as StoryPage[];
+};
+
+// Plain text of a set of pages, sentences joined by a single space
+export const pagesToText = (pages: StoryPage[]): string =>
+  pages
+    .flatMap((page) => page.paragraphs)
+    .flatMap((paragraph) => paragraph.sentences)
+    .map((sentence) => sentence.text)
+    .join(" ");
+
+// Validate an already decoded story file and build the in-memory Story
+export const parseStory = (data: unknown, source = "story"): Story => {
+  const result = storyFileSchema.safeParse(data);
+  if (!result.success) {
+    throw new StoryFormatError(
+      source,
+      result.error.issues.map((issue) => ({ path: formatPath(issue.path), message: issue.message }))
+    );
+  }
+
+  const file = result.data;
+  const pages = toPages(file);
+  const text = pagesToText(pages);
+
+  return {
+    id: file.id,
+    title: file.title,
+    description: file.description,
+    locale: file.locale,
+    difficulty: file.difficulty ?? analyzeReadability(text).difficulty,
+    tags: file.tags,
+    text,
+    pages,
+    metadata: {
+      emoji: file.metadata.emoji,
+      ...(file.metadata.readingLevel && { readingLevel: file.metadata.readingLevel }),
+    } as StoryMetadata,
+  };
+};
+
+// Decode and validate a story file given as JSON text
+export const parseStoryFile = (json: string, source = "story"): Story => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new StoryFormatError(source, [
+      { path: "", message: `not valid JSON (${(error as Error).message})` },
+    ]);
+  }
+  return parseStory(data, source);
+};
+
+// Turn a Story back into its file representation, the inverse of parseStory
+export const serializeStory = (story: Story) => ({
+  format: STORY_FORMAT_VERSION,
+  id: story.id,
+  title: story.title,
+  description: story.description,
+  locale: story.locale,
+  difficulty: story.difficulty,
+  tags: story.tags,
+  metadata: story.metadata,
+  pages: story.pages.map((page) => ({
+    ...(page.illustration && { illustration: page.illustration }),
+    paragraphs: page.paragraphs.map((paragraph) => ({
+      sentences: paragraph.sentences.map((sentence) =>
+        sentence.annotations.length > 0 ? sentence : sentence.text
+      ),
+    })),
+  })),
+});
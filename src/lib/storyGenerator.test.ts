@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { DIFFICULTY_PROFILES, STORY_THEMES, generateStory, parseGeneratedStoryId } from "./storyGenerator";
+import { parseStory, serializeStory } from "./storyFormat";
+import type { StoryDifficulty } from "./story";
+
+const OPENING = /^(Era uma vez|Há muito tempo)\b/;
+const SEEDS = Array.from({ length: 100 }, (_, seed) => seed);
+
+const combinations = STORY_THEMES.flatMap(({ value: theme }) =>
+  (Object.keys(DIFFICULTY_PROFILES) as StoryDifficulty[]).map((difficulty) => ({ theme, difficulty }))
+);
+
+describe("generateStory", () => {
+  it.each(combinations)("opens a $difficulty $theme story exactly once", ({ theme, difficulty }) => {
+    for (const seed of SEEDS) {
+      const sentences = generateStory({ theme, difficulty, seed })
+        .pages.flatMap((page) => page.paragraphs)
+        .flatMap((paragraph) => paragraph.sentences)
+        .map((sentence) => sentence.text);
+      expect(sentences[0], `seed ${seed}`).toMatch(OPENING);
+      expect(sentences.filter((sentence) => OPENING.test(sentence)), `seed ${seed}`).toHaveLength(1);
+    }
+  });
+
+  it.each(combinations)("writes $difficulty $theme stories that round-trip", ({ theme, difficulty }) => {
+    for (const seed of SEEDS) {
+      const story = generateStory({ theme, difficulty, seed });
+      expect(parseStory(serializeStory(story), story.id)).toEqual(story);
+    }
+  });
+
+  it("gives the same story for the same seed", () => {
+    const options = { theme: STORY_THEMES[0].value, difficulty: "medium" as const, seed: 42 };
+    expect(generateStory(options)).toEqual(generateStory(options));
+    expect(parseGeneratedStoryId(generateStory(options).id)).toEqual(options);
+  });
+});
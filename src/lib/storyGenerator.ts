@@ -0,0 +1,439 @@
+import type { Story, StoryDifficulty, StorySentence } from "./story";
+import { pagesToText } from "./storyFormat";
+
+// Offline story generator: fills pt-BR sentence templates with words from a
+// themed vocabulary bank. The same theme, difficulty and seed always produce
+// the same story, so a generated story can be reopened from its id alone.
+
+export type StoryTheme = "animais" | "mar" | "espaco" | "fazenda";
+
+type Gender = "m" | "f";
+// 1 = only simple consonant-vowel syllables, 2 = digraphs and nasal vowels,
+// 3 = consonant clusters and long words
+type Complexity = 1 | 2 | 3;
+
+interface Noun {
+  word: string;
+  gender: Gender;
+  complexity: Complexity;
+  emoji?: string;
+}
+
+interface Place {
+  in: string;
+  to: string;
+  complexity: Complexity;
+}
+
+interface Adjective {
+  m: string;
+  f: string;
+  complexity: Complexity;
+}
+
+interface ThemeVocabulary {
+  label: string;
+  emoji: string;
+  tags: string[];
+  characters: Noun[];
+  places: Place[];
+  objects: Noun[];
+  adjectives: Adjective[];
+}
+
+const VOCABULARY: Record<StoryTheme, ThemeVocabulary> = {
+  animais: {
+    label: "Animais",
+    emoji: "🐾",
+    tags: ["animais"],
+    characters: [
+      { word: "gato", gender: "m", complexity: 1, emoji: "🐱" },
+      { word: "pato", gender: "m", complexity: 1, emoji: "🦆" },
+      { word: "vaca", gender: "f", complexity: 1, emoji: "🐮" },
+      { word: "macaco", gender: "m", complexity: 1, emoji: "🐵" },
+      { word: "coelha", gender: "f", complexity: 2, emoji: "🐰" },
+      { word: "tartaruga", gender: "f", complexity: 2, emoji: "🐢" },
+      { word: "zebra", gender: "f", complexity: 3, emoji: "🦓" },
+      { word: "crocodilo", gender: "m", complexity: 3, emoji: "🐊" },
+    ],
+    places: [
+      { in: "na mata", to: "para a mata", complexity: 1 },
+      { in: "no campo", to: "para o campo", complexity: 2 },
+      { in: "na floresta", to: "para a floresta", complexity: 3 },
+    ],
+    objects: [
+      { word: "bola", gender: "f", complexity: 1 },
+      { word: "fita", gender: "f", complexity: 1 },
+      { word: "sapato", gender: "m", complexity: 1 },
+      { word: "chapéu", gender: "m", complexity: 2 },
+      { word: "brinquedo", gender: "m", complexity: 3 },
+    ],
+    adjectives: [
+      { m: "bonito", f: "bonita", complexity: 1 },
+      { m: "levado", f: "levada", complexity: 1 },
+      { m: "esperto", f: "esperta", complexity: 2 },
+      { m: "corajoso", f: "corajosa", complexity: 2 },
+      { m: "brincalhão", f: "brincalhona", complexity: 3 },
+    ],
+  },
+  mar: {
+    label: "Fundo do mar",
+    emoji: "🌊",
+    tags: ["animais", "aventura"],
+    characters: [
+      { word: "polvo", gender: "m", complexity: 2, emoji: "🐙" },
+      { word: "foca", gender: "f", complexity: 1, emoji: "🦭" },
+      { word: "peixe", gender: "m", complexity: 2, emoji: "🐠" },
+      { word: "baleia", gender: "f", complexity: 1, emoji: "🐳" },
+      { word: "sereia", gender: "f", complexity: 1, emoji: "🧜‍♀️" },
+      { word: "golfinho", gender: "m", complexity: 2, emoji: "🐬" },
+      { word: "tubarão", gender: "m", complexity: 3, emoji: "🦈" },
+    ],
+    places: [
+      { in: "no mar", to: "para o mar", complexity: 1 },
+      { in: "na praia", to: "para a praia", complexity: 3 },
+      { in: "no fundo do mar", to: "para o fundo do mar", complexity: 2 },
+    ],
+    objects: [
+      { word: "concha", gender: "f", complexity: 2 },
+      { word: "pérola", gender: "f", complexity: 1 },
+      { word: "tesouro", gender: "m", complexity: 2 },
+      { word: "coral", gender: "m", complexity: 1 },
+      { word: "estrela-do-mar", gender: "f", complexity: 3 },
+    ],
+    adjectives: [
+      { m: "bonito", f: "bonita", complexity: 1 },
+      { m: "calado", f: "calada", complexity: 1 },
+      { m: "curioso", f: "curiosa", complexity: 2 },
+      { m: "brilhante", f: "brilhante", complexity: 3 },
+    ],
+  },
+  espaco: {
+    label: "Espaço",
+    emoji: "🚀",
+    tags: ["ciencia", "aventura"],
+    characters: [
+      { word: "robô", gender: "m", complexity: 1, emoji: "🤖" },
+      { word: "menina", gender: "f", complexity: 1, emoji: "👧" },
+      { word: "menino", gender: "m", complexity: 1, emoji: "👦" },
+      { word: "astronauta", gender: "f", complexity: 3, emoji: "👩‍🚀" },
+      { word: "alienígena", gender: "m", complexity: 3, emoji: "👽" },
+    ],
+    places: [
+      { in: "na lua", to: "para a lua", complexity: 1 },
+      { in: "no foguete", to: "para o foguete", complexity: 1 },
+      { in: "no planeta azul", to: "para o planeta azul", complexity: 3 },
+    ],
+    objects: [
+      { word: "luneta", gender: "f", complexity: 1 },
+      { word: "pedra", gender: "f", complexity: 3 },
+      { word: "estrela", gender: "f", complexity: 3 },
+      { word: "mapa", gender: "m", complexity: 1 },
+      { word: "cometa", gender: "m", complexity: 1 },
+    ],
+    adjectives: [
+      { m: "veloz", f: "veloz", complexity: 1 },
+      { m: "sozinho", f: "sozinha", complexity: 2 },
+      { m: "curioso", f: "curiosa", complexity: 2 },
+      { m: "destemido", f: "destemida", complexity: 3 },
+    ],
+  },
+  fazenda: {
+    label: "Fazenda",
+    emoji: "🚜",
+    tags: ["animais"],
+    characters: [
+      { word: "galo", gender: "m", complexity: 1, emoji: "🐓" },
+      { word: "cavalo", gender: "m", complexity: 1, emoji: "🐴" },
+      { word: "ovelha", gender: "f", complexity: 2, emoji: "🐑" },
+      { word: "porquinha", gender: "f", complexity: 2, emoji: "🐷" },
+      { word: "cabrito", gender: "m", complexity: 3, emoji: "🐐" },
+    ],
+    places: [
+      { in: "na roça", to: "para a roça", complexity: 1 },
+      { in: "no celeiro", to: "para o celeiro", complexity: 2 },
+      { in: "na plantação", to: "para a plantação", complexity: 3 },
+    ],
+    objects: [
+      { word: "milho", gender: "m", complexity: 2 },
+      { word: "ovo", gender: "m", complexity: 1 },
+      { word: "sino", gender: "m", complexity: 1 },
+      { word: "cesta", gender: "f", complexity: 2 },
+      { word: "trator", gender: "m", complexity: 3 },
+    ],
+    adjectives: [
+      { m: "feliz", f: "feliz", complexity: 1 },
+      { m: "sapeca", f: "sapeca", complexity: 1 },
+      { m: "manhoso", f: "manhosa", complexity: 2 },
+      { m: "preguiçoso", f: "preguiçosa", complexity: 2 },
+    ],
+  },
+};
+
+export interface DifficultyProfile {
+  maxSentenceWords: number;
+  maxComplexity: Complexity;
+  // Sentences in the beginning, middle and end of the story
+  structure: [number, number, number];
+  // High-frequency words the templates should practice
+  sightWords: string[];
+  grade: number;
+}
+
+export const DIFFICULTY_PROFILES: Record<StoryDifficulty, DifficultyProfile> = {
+  easy: {
+    maxSentenceWords: 6,
+    maxComplexity: 1,
+    structure: [1, 3, 1],
+    sightWords: ["era", "uma", "vez", "um", "o", "a", "e", "ele", "ela", "viu", "foi"],
+    grade: 1,
+  },
+  medium: {
+    maxSentenceWords: 10,
+    maxComplexity: 2,
+    structure: [2, 4, 1],
+    sightWords: ["com", "para", "que", "no", "na", "muito", "dia", "mas"],
+    grade: 2,
+  },
+  hard: {
+    maxSentenceWords: 16,
+    maxComplexity: 3,
+    structure: [2, 5, 2],
+    sightWords: ["quando", "depois", "porque", "então", "de repente", "todos"],
+    grade: 3,
+  },
+};
+
+// Template slots: {Hero}/{hero} "O gato", {aHero} "um gato", {Pron}/{pron}
+// "Ele", {friend}/{aFriend}, {theObject}/{anObject}, {in} "na mata",
+// {to} "para a mata", {adj} adjective agreeing with the hero, and
+// [cansado/cansada] for any word that must agree with the hero. Words that
+// agree with the friend are written [friend:querido/querida], and words for
+// the hero and the friend together [both:juntos/juntas].
+interface Template {
+  text: string;
+  complexity: Complexity;
+  // Introduces the hero, so it can open the story
+  opening?: boolean;
+}
+
+const TEMPLATES: Record<"beginning" | "middle" | "end", Template[]> = {
+  beginning: [
+    { text: "Era uma vez {aHero}.", complexity: 1, opening: true },
+    { text: "{Hero} era {adj}.", complexity: 1 },
+    { text: "{Pron} gostava de brincar {in}.", complexity: 1 },
+    { text: "Era uma vez {aHero} {adj} que vivia {in}.", complexity: 2, opening: true },
+    { text: "{Hero} tinha {aFriend} muito [friend:querido/querida].", complexity: 2 },
+    { text: "Há muito tempo, {in}, morava {aHero} {adj}.", complexity: 3, opening: true },
+    { text: "Todos diziam que {hero} era [o mais/a mais] {adj} de toda a região.", complexity: 3 },
+  ],
+  middle: [
+    { text: "Um dia, {pron} viu {anObject}.", complexity: 1 },
+    { text: "{Pron} foi {to}.", complexity: 1 },
+    { text: "{Pron} pegou {theObject}.", complexity: 1 },
+    { text: "{Friend} viu {hero}.", complexity: 1 },
+    { text: "{Pron} deu {theObject} para {friend}.", complexity: 1 },
+    { text: "Um dia, {hero} achou {anObject} {in}.", complexity: 2 },
+    { text: "Mas {theObject} sumiu e {pron} ficou triste.", complexity: 2 },
+    { text: "{Pron} chamou {friend} para ajudar.", complexity: 2 },
+    { text: "[both:Juntos/Juntas], {hero} e {friend} foram {to}.", complexity: 2 },
+    { text: "{Friend} disse que {theObject} estava {in}.", complexity: 2 },
+    { text: "De repente, {hero} ouviu um barulho e ficou [assustado/assustada].", complexity: 3 },
+    { text: "Depois de muito procurar, {friend} encontrou {theObject} atrás de uma pedra.", complexity: 3 },
+    { text: "Então {hero} teve uma ideia, porque {pron} era muito {adj}.", complexity: 3 },
+    { text: "Quando o sol apareceu, todos correram {to} para brincar.", complexity: 3 },
+  ],
+  end: [
+    { text: "{Pron} ficou feliz.", complexity: 1 },
+    { text: "No fim, {hero} e {friend} ficaram [both:amigos/amigas].", complexity: 2 },
+    { text: "Foi um dia muito divertido {in}.", complexity: 2 },
+    { text: "Quando a noite chegou, {hero} voltou para casa [cansado/cansada] e feliz.", complexity: 3 },
+    { text: "Depois daquele dia, todos sabiam que {hero} era [um amigo/uma amiga] de verdade.", complexity: 3 },
+    { text: "Que dia bom!", complexity: 1 },
+  ],
+};
+
+export interface GeneratorOptions {
+  theme: StoryTheme;
+  difficulty: StoryDifficulty;
+  seed: number;
+}
+
+export const STORY_THEMES = Object.entries(VOCABULARY).map(([value, vocabulary]) => ({
+  value: value as StoryTheme,
+  label: vocabulary.label,
+  emoji: vocabulary.emoji,
+}));
+
+// Small deterministic PRNG (mulberry32) so a seed reproduces a story
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+type Random = ReturnType<typeof createRandom>;
+
+const pick = <T>(random: Random, items: T[]): T => items[Math.floor(random() * items.length)];
+
+// Weighted pick, every weight must be positive
+const pickWeighted = <T>(random: Random, items: T[], weight: (item: T) => number): T => {
+  const weights = items.map(weight);
+  let target = random() * weights.reduce((sum, value) => sum + value, 0);
+  for (let i = 0; i < items.length; i++) {
+    target -= weights[i];
+    if (target <= 0) return items[i];
+  }
+  return items[items.length - 1];
+};
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const definite = (noun: Noun) => `${noun.gender === "m" ? "o" : "a"} ${noun.word}`;
+const indefinite = (noun: Noun) => `${noun.gender === "m" ? "um" : "uma"} ${noun.word}`;
+
+const countWords = (text: string) => text.split(/\s+/).filter((word) => word.length > 0).length;
+
+// Sight words a sentence practices, multi-word entries matched as phrases
+const sightWordsIn = (sentence: string, sightWords: string[]) => {
+  const padded = ` ${sentence.toLowerCase().replace(/[.,!?]/g, "")} `;
+  return sightWords.filter((word) => padded.includes(` ${word} `));
+};
+
+export const generatedStoryId = ({ theme, difficulty, seed }: GeneratorOptions) =>
+  `gen-${theme}-${difficulty}-${seed}`;
+
+// Recover the generator options from an id built by generatedStoryId
+export const parseGeneratedStoryId = (id: string): GeneratorOptions | undefined => {
+  const match = /^gen-([a-z]+)-(easy|medium|hard)-(\d+)$/.exec(id);
+  if (!match || !(match[1] in VOCABULARY)) return undefined;
+  return {
+    theme: match[1] as StoryTheme,
+    difficulty: match[2] as StoryDifficulty,
+    seed: Number(match[3]),
+  };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 1_000_000);
+
+export const generateStory = (options: GeneratorOptions): Story => {
+  const { theme, difficulty, seed } = options;
+  const profile = DIFFICULTY_PROFILES[difficulty];
+  const vocabulary = VOCABULARY[theme];
+  const random = createRandom(seed);
+
+  const fits = <T extends { complexity: Complexity }>(items: T[]) =>
+    items.filter((item) => item.complexity <= profile.maxComplexity);
+
+  const characters = fits(vocabulary.characters);
+  const hero = pick(random, characters);
+  const friend = pick(random, characters.filter((character) => character !== hero));
+  const place = pick(random, fits(vocabulary.places));
+  const object = pick(random, fits(vocabulary.objects));
+  const adjective = pick(random, fits(vocabulary.adjectives));
+  const agree = (m: string, f: string) => (hero.gender === "m" ? m : f);
+  // Genders the [m/f] slots agree with; the pair is feminine only when both are
+  const genders: Record<"hero" | "friend" | "both", Gender> = {
+    hero: hero.gender,
+    friend: friend.gender,
+    both: hero.gender === "f" && friend.gender === "f" ? "f" : "m",
+  };
+
+  const slots: Record<string, string> = {
+    hero: definite(hero),
+    aHero: indefinite(hero),
+    pron: agree("ele", "ela"),
+    friend: definite(friend),
+    aFriend: indefinite(friend),
+    theObject: definite(object),
+    anObject: indefinite(object),
+    in: place.in,
+    to: place.to,
+    adj: agree(adjective.m, adjective.f),
+  };
+
+  const fill = (template: string) => {
+    const text = template
+      .replace(/\{(\w+)\}/g, (_, slot: string) => {
+        const value = slots[slot.charAt(0).toLowerCase() + slot.slice(1)];
+        return slot.charAt(0) === slot.charAt(0).toUpperCase() ? capitalize(value) : value;
+      })
+      .replace(
+        /\[(?:(hero|friend|both):)?([^/\]]+)\/([^\]]+)\]/g,
+        (_, target: keyof typeof genders | undefined, m: string, f: string) =>
+          genders[target ?? "hero"] === "m" ? m : f
+      );
+    return capitalize(text);
+  };
+
+  const practiced = new Set<string>();
+  const used = new Set<Template>();
+
+  // Prefer templates that introduce sight words the story has not used yet
+  // Templates are listed in narrative order, so chosen sentences keep that
+  // order, except for the opening line which always comes first.
+  const writeSentences = (templates: Template[], count: number, opening = false): StorySentence[] => {
+    const chosen: { index: number; text: string }[] = [];
+    for (let i = 0; i < count; i++) {
+      const candidates = templates
+        .filter((template) => template.complexity <= profile.maxComplexity && !used.has(template))
+        // Only the first sentence of the beginning may be an opening line
+        .filter((template) => (opening ? (i === 0) === !!template.opening : !template.opening))
+        .map((template) => ({ template, text: fill(template.text) }))
+        .filter((candidate) => countWords(candidate.text) <= profile.maxSentenceWords);
+      if (candidates.length === 0) break;
+
+      const candidate = pickWeighted(random, candidates, ({ text }) => {
+        const fresh = sightWordsIn(text, profile.sightWords).filter((word) => !practiced.has(word));
+        return 1 + 2 * fresh.length;
+      });
+      used.add(candidate.template);
+      sightWordsIn(candidate.text, profile.sightWords).forEach((word) => practiced.add(word));
+      chosen.push({ index: templates.indexOf(candidate.template), text: candidate.text });
+    }
+
+    const [first, ...rest] = chosen;
+    const ordered = opening
+      ? [first, ...rest.sort((a, b) => a.index - b.index)]
+      : chosen.sort((a, b) => a.index - b.index);
+    return ordered.filter(Boolean).map(({ text }) => ({ text, annotations: [] }));
+  };
+
+  const [beginning, middle, end] = profile.structure;
+  const pages = [
+    {
+      illustration: { emoji: hero.emoji ?? vocabulary.emoji, alt: capitalize(definite(hero)) },
+      paragraphs: [
+        { sentences: writeSentences(TEMPLATES.beginning, beginning, true) },
+        { sentences: writeSentences(TEMPLATES.middle, middle) },
+        { sentences: writeSentences(TEMPLATES.end, end) },
+      ].filter((paragraph) => paragraph.sentences.length > 0),
+    },
+  ];
+  const text = pagesToText(pages);
+
+  return {
+    id: generatedStoryId(options),
+    title: capitalize(
+      `${definite(hero)} e ${definite(object)}`
+        .split(" ")
+        .map((word) => (word.length > 2 ? capitalize(word) : word))
+        .join(" ")
+    ),
+    description: `Uma história sobre ${definite(hero)} ${place.in}.`,
+    locale: "pt-BR",
+    difficulty,
+    tags: vocabulary.tags,
+    text,
+    pages,
+    metadata: {
+      emoji: hero.emoji ?? vocabulary.emoji,
+      readingLevel: { grade: profile.grade },
+    },
+  };
+};
@@ -0,0 +1,104 @@
+import type { Story } from "./story";
+import { parseStory, serializeStory, StoryFormatError } from "./storyFormat";
+import { generateStory, parseGeneratedStoryId } from "./storyGenerator";
+
+// Story opened when the reader is reached without a valid id
+export const DEFAULT_STORY_ID = "2";
+
+// Stories written in the editor live in local storage as story files
+const CUSTOM_STORIES_KEY = "leiacomigo:stories";
+const CUSTOM_ID_PREFIX = "custom-";
+
+// Every story file bundled under src/data/stories
+const storyFiles = import.meta.glob<unknown>("../data/stories/*.json", {
+  eager: true,
+  import: "default",
+});
+
+// Parse story files, logging and skipping the ones that do not validate
+const parseStories = (entries: [source: string, data: unknown][]): Story[] => {
+  const stories: Story[] = [];
+
+  entries.forEach(([source, data]) => {
+    try {
+      stories.push(parseStory(data, source));
+    } catch (error) {
+      if (!(error instanceof StoryFormatError)) throw error;
+      console.error(error.message);
+    }
+  });
+
+  return stories;
+};
+
+const BUNDLED_STORIES = parseStories(
+  Object.entries(storyFiles).map(([path, data]) => [path.split("/").pop(), data])
+).sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }));
+
+const loadCustomStories = (): Story[] => {
+  if (typeof localStorage === "undefined") return [];
+  try {
+    const files: unknown[] = JSON.parse(localStorage.getItem(CUSTOM_STORIES_KEY) ?? "[]");
+    return parseStories(files.map((data, index) => [`${CUSTOM_STORIES_KEY}[${index}]`, data]));
+  } catch (error) {
+    console.error("Could not read saved stories:", error);
+    return [];
+  }
+};
+
+let customStories = loadCustomStories();
+let allStories = [...BUNDLED_STORIES, ...customStories];
+const listeners = new Set<() => void>();
+
+const persistCustomStories = (stories: Story[]) => {
+  localStorage.setItem(CUSTOM_STORIES_KEY, JSON.stringify(stories.map(serializeStory)));
+  customStories = stories;
+  allStories = [...BUNDLED_STORIES, ...customStories];
+  listeners.forEach((listener) => listener());
+};
+
+// All stories in catalog order, bundled stories first
+export const getAllStories = (): Story[] => allStories;
+
+// Look up a single story, undefined when the id is unknown. Generated stories
+// are rebuilt from the theme, difficulty and seed encoded in their id.
+export const getStoryById = (id: string | undefined): Story | undefined => {
+  if (!id) return undefined;
+  const story = allStories.find((candidate) => candidate.id === id);
+  if (story) return story;
+
+  const generatorOptions = parseGeneratedStoryId(id);
+  return generatorOptions && generateStory(generatorOptions);
+};
+
+// Only stories written in the editor can be changed or removed
+export const isCustomStory = (id: string): boolean =>
+  customStories.some((story) => story.id === id);
+
+export const createCustomStoryId = (): string =>
+  `${CUSTOM_ID_PREFIX}${Date.now().toString(36)}`;
+
+// Insert or replace a custom story, validating it like any story file
+export const saveStory = (story: Story): Story => {
+  const saved = parseStory(serializeStory(story), story.id);
+  const exists = customStories.some((existing) => existing.id === saved.id);
+
+  persistCustomStories(
+    exists
+      ? customStories.map((existing) => (existing.id === saved.id ? saved : existing))
+      : [...customStories, saved]
+  );
+  return saved;
+};
+
+export const deleteStory = (id: string) => {
+  persistCustomStories(customStories.filter((story) => story.id !== id));
+};
+
+// Subscribe to catalog changes, returns the unsubscribe function
+export const subscribeToStories = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { parseStory } from "./storyFormat";
+import { searchStories, splitSearchTerms } from "./storySearch";
+
+const story = (id: string, title: string, description: string, text: string) =>
+  parseStory({ format: 1, id, title, description, metadata: { emoji: "📘" }, text });
+
+const STORIES = [
+  story("leao", "O Leão e o Ratinho", "Uma fábula sobre amizade.", "O leão dormia na floresta. O ratinho passou."),
+  story("lebre", "A Tartaruga e a Lebre", "Quem chega primeiro?", "A lebre correu muito e parou para dormir."),
+  story("lua", "Por que a Lua Muda", "Uma história sobre o céu.", "A lua muda de forma a cada noite, diz o leão."),
+];
+
+const ids = (query: string) => searchStories(STORIES, query).map((result) => result.story.id);
+
+describe("splitSearchTerms", () => {
+  it("folds case, accents and punctuation", () => {
+    expect(splitSearchTerms("  Leão,  RATINHO! ")).toEqual(["leao", "ratinho"]);
+  });
+});
+
+describe("searchStories", () => {
+  it("keeps the catalog order without a query", () => {
+    expect(ids("  ")).toEqual(["leao", "lebre", "lua"]);
+  });
+
+  it("ignores accents on either side", () => {
+    expect(ids("leao")).toEqual(["leao", "lua"]);
+    expect(ids("FÁBULA")).toEqual(["leao"]);
+    expect(ids("ceu")).toEqual(["lua"]);
+  });
+
+  it("needs every term somewhere in the story", () => {
+    expect(ids("leão floresta")).toEqual(["leao"]);
+    expect(ids("leão tartaruga")).toEqual([]);
+  });
+
+  it("ranks title matches above matches in the text", () => {
+    expect(ids("dormir")).toEqual(["lebre"]);
+    expect(ids("lua")).toEqual(["lua"]);
+    expect(ids("a")[0]).toBe("lebre");
+  });
+
+  it("points at the matched characters of the original title", () => {
+    const [result] = searchStories(STORIES, "leao");
+    expect(result.story.title.slice(result.titleMatches[0].start, result.titleMatches[0].end)).toBe("Leão");
+  });
+
+  it("quotes the story text around a match found only there", () => {
+    const [result] = searchStories(STORIES, "floresta");
+    expect(result.snippet?.text).toContain("floresta");
+    const [match] = result.snippet?.matches ?? [];
+    expect(result.snippet?.text.slice(match.start, match.end)).toBe("floresta");
+  });
+});
@@ -0,0 +1,158 @@
+import type { Story } from "./story";
+import { normalizeText } from "./textMatching";
+
+// Accent-insensitive full-text search over the story catalog
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface StorySearchResult {
+  story: Story;
+  score: number;
+  titleMatches: TextRange[];
+  descriptionMatches: TextRange[];
+  // Excerpt of the story body around the first match, when the body matched
+  snippet?: { text: string; matches: TextRange[] };
+}
+
+const FIELD_WEIGHTS = { title: 10, description: 4, text: 1 };
+const SNIPPET_RADIUS = 40;
+
+interface FoldedText {
+  folded: string;
+  // Index in the original text of every folded character
+  origin: number[];
+}
+
+// Fold a text with normalizeText one character at a time, so matches found in
+// the folded text can be mapped back to the original characters
+const foldText = (text: string): FoldedText => {
+  let folded = "";
+  const origin: number[] = [];
+
+  Array.from(text).reduce((offset, char) => {
+    const normalized = /\s/.test(char) ? " " : normalizeText(char);
+    for (const foldedChar of normalized) {
+      folded += foldedChar;
+      origin.push(offset);
+    }
+    return offset + char.length;
+  }, 0);
+
+  return { folded, origin };
+};
+
+const findMatches = (field: FoldedText, terms: string[]): { ranges: TextRange[]; score: number } => {
+  const ranges: TextRange[] = [];
+  let score = 0;
+
+  terms.forEach((term) => {
+    let index = field.folded.indexOf(term);
+    while (index !== -1) {
+      const atWordStart = index === 0 || field.folded[index - 1] === " ";
+      const afterEnd = field.folded[index + term.length];
+      const wholeWord = atWordStart && (afterEnd === undefined || afterEnd === " ");
+      score += wholeWord ? 3 : atWordStart ? 2 : 1;
+
+      const lastOrigin = field.origin[index + term.length - 1];
+      ranges.push({ start: field.origin[index], end: lastOrigin + 1 });
+      index = field.folded.indexOf(term, index + term.length);
+    }
+  });
+
+  return { ranges: mergeRanges(ranges), score };
+};
+
+const mergeRanges = (ranges: TextRange[]): TextRange[] =>
+  [...ranges]
+    .sort((a, b) => a.start - b.start)
+    .reduce<TextRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+      return merged;
+    }, []);
+
+const buildSnippet = (text: string, ranges: TextRange[]) => {
+  const first = ranges[0];
+  let start = Math.max(0, first.start - SNIPPET_RADIUS);
+  let end = Math.min(text.length, first.end + SNIPPET_RADIUS);
+
+  // Snap to word boundaries so the excerpt does not start mid-word
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    if (space !== -1 && space < first.start) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    if (space >= first.end) end = space;
+  }
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  const shift = prefix.length - start;
+
+  return {
+    text: prefix + text.slice(start, end) + suffix,
+    matches: ranges
+      .filter((range) => range.start >= start && range.end <= end)
+      .map((range) => ({ start: range.start + shift, end: range.end + shift })),
+  };
+};
+
+export const splitSearchTerms = (query: string): string[] =>
+  normalizeText(query)
+    .split(/\s+/)
+    .filter((term) => term.length > 0);
+
+// Stories matching every term of the query, best matches first. Titles count
+// more than descriptions, which count more than the story body.
+export const searchStories = (stories: Story[], query: string): StorySearchResult[] => {
+  const terms = splitSearchTerms(query);
+  if (terms.length === 0) {
+    return stories.map((story) => ({ story, score: 0, titleMatches: [], descriptionMatches: [] }));
+  }
+
+  const results: StorySearchResult[] = [];
+
+  stories.forEach((story) => {
+    const fields = {
+      title: foldText(story.title),
+      description: foldText(story.description),
+      text: foldText(story.text),
+    };
+
+    const everyTermFound = terms.every((term) =>
+      Object.values(fields).some((field) => field.folded.includes(term))
+    );
+    if (!everyTermFound) return;
+
+    const title = findMatches(fields.title, terms);
+    const description = findMatches(fields.description, terms);
+    const text = findMatches(fields.text, terms);
+
+    let score =
+      title.score * FIELD_WEIGHTS.title +
+      description.score * FIELD_WEIGHTS.description +
+      text.score * FIELD_WEIGHTS.text;
+    if (fields.title.folded.startsWith(terms.join(" "))) score += FIELD_WEIGHTS.title;
+
+    results.push({
+      story,
+      score,
+      titleMatches: title.ranges,
+      descriptionMatches: description.ranges,
+      snippet:
+        description.ranges.length === 0 && text.ranges.length > 0
+          ? buildSnippet(story.text, text.ranges)
+          : undefined,
+    });
+  });
+
+  return results.sort((a, b) => b.score - a.score);
+};
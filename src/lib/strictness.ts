@@ -0,0 +1,121 @@
+// How strict the matcher is with what the child says. Profiles are chosen as
+// the child's default and may be overridden for a single story; both live in
+// local storage.
+
+export interface MatchingOptions {
+  // Letter similarity (0-1) needed for words of one or two letters and for longer words
+  shortWordSimilarity: number;
+  wordSimilarity: number;
+  // Largest length difference still compared by similarity
+  maxLengthDifference: number;
+  // Accept words that sound the same but are spelled differently, e.g. "xuva"
+  phonetic: boolean;
+  // Reject words that differ only by accents, e.g. "sabia" for "sábia"
+  accentsMatter: boolean;
+  // Let the cursor move past skipped or misread words
+  allowSkipping: boolean;
+}
+
+export type StrictnessProfile = "beginner" | "intermediate" | "fluent" | "custom";
+
+export const STRICTNESS_PRESETS: Record<Exclude<StrictnessProfile, "custom">, MatchingOptions> = {
+  beginner: {
+    shortWordSimilarity: 0.5,
+    wordSimilarity: 0.7,
+    maxLengthDifference: 3,
+    phonetic: true,
+    accentsMatter: false,
+    allowSkipping: true,
+  },
+  intermediate: {
+    shortWordSimilarity: 0.6,
+    wordSimilarity: 0.8,
+    maxLengthDifference: 2,
+    phonetic: true,
+    accentsMatter: false,
+    allowSkipping: true,
+  },
+  fluent: {
+    shortWordSimilarity: 1,
+    wordSimilarity: 0.9,
+    maxLengthDifference: 1,
+    phonetic: false,
+    accentsMatter: true,
+    allowSkipping: false,
+  },
+};
+
+export const DEFAULT_MATCHING_OPTIONS = STRICTNESS_PRESETS.intermediate;
+
+export const STRICTNESS_LABELS: Record<StrictnessProfile, { label: string; description: string }> = {
+  beginner: { label: "Iniciante", description: "Aceita palavras parecidas e pronúncias aproximadas." },
+  intermediate: { label: "Intermediário", description: "Equilíbrio entre ajuda e precisão." },
+  fluent: { label: "Fluente", description: "Cada palavra precisa ser lida certinha e em ordem." },
+  custom: { label: "Personalizado", description: "Ajuste cada regra do jeito da criança." },
+};
+
+export interface StrictnessSettings {
+  // Profile used for every story without its own
+  profile: StrictnessProfile;
+  // Options of the custom profile
+  custom: MatchingOptions;
+  // Stories read with a different profile than the child's
+  stories: Record<string, StrictnessProfile>;
+}
+
+const STRICTNESS_KEY = "leiacomigo:strictness";
+
+const DEFAULT_SETTINGS: StrictnessSettings = {
+  profile: "intermediate",
+  custom: DEFAULT_MATCHING_OPTIONS,
+  stories: {},
+};
+
+const loadSettings = (): StrictnessSettings => {
+  // Nothing is saved outside a browser, e.g. under vitest
+  if (typeof localStorage === "undefined") return DEFAULT_SETTINGS;
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(localStorage.getItem(STRICTNESS_KEY) ?? "{}") };
+  } catch (error) {
+    console.error("Could not read strictness settings:", error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+let settings = loadSettings();
+const listeners = new Set<() => void>();
+
+const persistSettings = (next: StrictnessSettings) => {
+  settings = next;
+  localStorage.setItem(STRICTNESS_KEY, JSON.stringify(settings));
+  listeners.forEach((listener) => listener());
+};
+
+export const getStrictnessSettings = (): StrictnessSettings => settings;
+
+export const setChildProfile = (profile: StrictnessProfile) => persistSettings({ ...settings, profile });
+
+// Pass undefined to read the story with the child's profile again
+export const setStoryProfile = (storyId: string, profile: StrictnessProfile | undefined) => {
+  const stories = { ...settings.stories };
+  if (profile) stories[storyId] = profile;
+  else delete stories[storyId];
+  persistSettings({ ...settings, stories });
+};
+
+export const setCustomOptions = (changes: Partial<MatchingOptions>) =>
+  persistSettings({ ...settings, custom: { ...settings.custom, ...changes } });
+
+export const profileForStory = (current: StrictnessSettings, storyId: string): StrictnessProfile =>
+  current.stories[storyId] ?? current.profile;
+
+export const optionsForProfile = (current: StrictnessSettings, profile: StrictnessProfile): MatchingOptions =>
+  profile === "custom" ? current.custom : STRICTNESS_PRESETS[profile];
+
+// Subscribe to settings changes, returns the unsubscribe function
+export const subscribeToStrictness = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,118 @@
+// Rule-based Portuguese syllable splitting, written for the words in children's
+// stories. It follows the spelling rules taught in school: digraphs stay
+// together, rr/ss/sc/xc are split, and consonant + l/r clusters start a syllable.
+
+const VOWELS = "aeiouáéíóúâêôãõàüy";
+const GLIDES = "iuü";
+const CLUSTER_STARTS = "pbtdcgfv";
+const SPLIT_DIGRAPHS = ["rr", "ss", "sc", "sç", "xc"];
+
+interface Unit {
+  text: string;
+  vowel: boolean;
+}
+
+const isVowel = (char: string) => char.length > 0 && VOWELS.includes(char);
+
+// Letters grouped so that ch/lh/nh and qu/gu before a vowel count as one consonant
+const toUnits = (word: string): Unit[] => {
+  const units: Unit[] = [];
+  let i = 0;
+
+  while (i < word.length) {
+    const pair = word.slice(i, i + 2);
+    if (pair === "ch" || pair === "lh" || pair === "nh") {
+      units.push({ text: pair, vowel: false });
+      i += 2;
+    } else if ((pair === "qu" || pair === "gu") && isVowel(word.charAt(i + 2))) {
+      units.push({ text: pair, vowel: false });
+      i += 2;
+    } else {
+      units.push({ text: word[i], vowel: isVowel(word[i]) });
+      i++;
+    }
+  }
+
+  return units;
+};
+
+// Whether the vowel at index joins the previous one in a diphthong
+const joinsPreviousVowel = (units: Unit[], index: number): boolean => {
+  const previous = units[index - 1].text;
+  const current = units[index].text;
+
+  // Nasal diphthongs: mãe, pão, põe
+  if ((previous === "ã" || previous === "õ") && (current === "e" || current === "o")) return true;
+
+  // Falling diphthongs end in an unaccented i/u: pai, céu, muito
+  if (!GLIDES.includes(current)) return false;
+  if (previous === current) return false;
+
+  // i/u before nh or a final l/r/z form a hiatus: ra-i-nha, ju-iz
+  const next = units[index + 1]?.text;
+  if (next === "nh") return false;
+  if (index + 2 === units.length && (next === "l" || next === "r" || next === "z")) return false;
+
+  return true;
+};
+
+// Consonants between two vowel nuclei: how many of them start the next syllable
+const onsetLength = (consonants: string[]): number => {
+  if (consonants.length <= 1) return consonants.length;
+
+  const [secondLast, last] = consonants.slice(-2);
+  const pair = secondLast + last;
+  if (SPLIT_DIGRAPHS.includes(pair)) return 1;
+  if ((last === "l" || last === "r") && CLUSTER_STARTS.includes(secondLast)) return 2;
+  return 1;
+};
+
+export const splitSyllables = (word: string): string[] => {
+  const lower = word.toLowerCase().replace(/[^a-zà-ÿç-]/g, "");
+  if (lower.includes("-")) {
+    return lower.split("-").filter(Boolean).flatMap(splitSyllables);
+  }
+
+  const units = toUnits(lower);
+
+  // Positions (in units) where each vowel nucleus starts and ends
+  const nuclei: { start: number; end: number }[] = [];
+  units.forEach((unit, index) => {
+    if (!unit.vowel) return;
+    const last = nuclei[nuclei.length - 1];
+    const extendsLast =
+      last && last.end === index - 1 && last.end === last.start && joinsPreviousVowel(units, index);
+    if (extendsLast) {
+      last.end = index;
+    } else {
+      nuclei.push({ start: index, end: index });
+    }
+  });
+
+  if (nuclei.length <= 1) return lower ? [lower] : [];
+
+  const syllables: string[] = [];
+  let syllableStart = 0;
+
+  for (let n = 0; n < nuclei.length - 1; n++) {
+    const consonants = units.slice(nuclei[n].end + 1, nuclei[n + 1].start).map((unit) => unit.text);
+    const boundary = nuclei[n + 1].start - onsetLength(consonants);
+    syllables.push(units.slice(syllableStart, boundary).map((unit) => unit.text).join(""));
+    syllableStart = boundary;
+  }
+  syllables.push(units.slice(syllableStart).map((unit) => unit.text).join(""));
+
+  return syllables;
+};
+
+export const countSyllables = (word: string): number => Math.max(1, splitSyllables(word).length);
+
+// Simple syllables are a vowel or a single consonant plus a vowel (CV, V).
+// Clusters, codas, digraphs and diphthongs all count as complex.
+export const isComplexSyllable = (syllable: string): boolean => {
+  const units = toUnits(syllable);
+  if (units.length === 1) return !units[0].vowel;
+  if (units.length > 2) return true;
+  if (units[0].text.length > 1 && units[0].text !== "qu" && units[0].text !== "gu") return true;
+  return units[0].vowel || !units[1].vowel;
+};
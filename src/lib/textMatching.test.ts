@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import { STRICTNESS_PRESETS } from "./strictness";
+import { alignAlternatives, alignTranscript, extractWords, wordsMatch } from "./textMatching";
+
+const { beginner, intermediate, fluent } = STRICTNESS_PRESETS;
+
+describe("wordsMatch", () => {
+  it.each([
+    ["caza", "casa"],
+    ["xuva", "chuva"],
+    ["seu", "céu"],
+    ["jente", "gente"],
+    ["mau", "mal"],
+  ])("accepts %s for %s when spelling by sound is allowed", (spoken, expected) => {
+    expect(wordsMatch(spoken, expected, intermediate)).toBe(true);
+  });
+
+  it("rejects words that only sound alike when the profile does not allow it", () => {
+    expect(wordsMatch("xuva", "chuva", { ...fluent, accentsMatter: false })).toBe(false);
+    expect(wordsMatch("seu", "céu", { ...fluent, accentsMatter: false })).toBe(false);
+  });
+
+  it("tells the tap r from the strong r", () => {
+    expect(wordsMatch("caro", "carro", { ...intermediate, wordSimilarity: 1 })).toBe(false);
+  });
+
+  it("keeps the accents of words that sound alike when accents matter", () => {
+    const options = { ...fluent, phonetic: true };
+    expect(wordsMatch("seu", "céu", options)).toBe(false);
+    expect(wordsMatch("avo", "avó", options)).toBe(false);
+    expect(wordsMatch("e", "é", options)).toBe(false);
+    expect(wordsMatch("xuva", "chuva", options)).toBe(true);
+  });
+
+  it("accepts close spellings by letter similarity", () => {
+    expect(wordsMatch("gatu", "gato", beginner)).toBe(true);
+    expect(wordsMatch("desde", "vez", beginner)).toBe(false);
+  });
+});
+
+const STORY = "Era uma vez um gato muito esperto".split(" ");
+
+const align = (spoken: string, expected = STORY, startIndex = 0, options = intermediate) =>
+  alignTranscript(extractWords(spoken), expected, startIndex, options);
+
+const typesOf = (spoken: string, expected = STORY, startIndex = 0, options = intermediate) =>
+  align(spoken, expected, startIndex, options).operations.map((operation) =>
+    operation.type === "insertion" ? `+${operation.spoken}` : `${operation.type}:${operation.expectedIndex}`
+  );
+
+describe("alignTranscript", () => {
+  it("moves past the words read", () => {
+    expect(align("era uma vez").nextIndex).toBe(3);
+    expect(typesOf("era uma vez")).toEqual(["match:0", "match:1", "match:2"]);
+  });
+
+  it("starts from the cursor", () => {
+    expect(align("gato muito", STORY, 4).nextIndex).toBe(6);
+  });
+
+  it("reports a skipped word and carries on after it", () => {
+    expect(align("era uma vez um muito esperto").nextIndex).toBe(7);
+    expect(typesOf("era uma vez um muito esperto")).toContain("omission:4");
+  });
+
+  it("keeps extra words and fillers out of the story", () => {
+    expect(align("era hum uma vez").nextIndex).toBe(3);
+    expect(typesOf("era hum uma vez")).toEqual(["match:0", "+hum", "match:1", "match:2"]);
+  });
+
+  it("reports a misread word", () => {
+    expect(typesOf("era uma fez um")).toEqual(["match:0", "match:1", "substitution:2", "match:3"]);
+    expect(align("era uma fez um").nextIndex).toBe(4);
+  });
+
+  it("keeps the cursor on a misread word with nothing read after it", () => {
+    const result = align("era uma fez");
+    expect(result.nextIndex).toBe(2);
+    expect(result.operations[2]).toMatchObject({ type: "substitution", expectedIndex: 2 });
+  });
+
+  it("reads numbers and contractions the way they are said", () => {
+    expect(align("tinha vinte e um dias", ["tinha", "21", "dias"]).nextIndex).toBe(3);
+    expect(align("a casa de ele", ["a", "casa", "dele"]).nextIndex).toBe(3);
+    expect(align("custa cinco reais hoje", ["custa", "R$", "5", "hoje"]).nextIndex).toBe(4);
+  });
+
+  it("leaves a word read halfway as the current word", () => {
+    expect(align("o pé de", ["o", "pé-de-feijão", "cresceu"]).nextIndex).toBe(1);
+    expect(align("o pé de feijão", ["o", "pé-de-feijão", "cresceu"]).nextIndex).toBe(2);
+  });
+
+  it("stops at the first word not read right when skipping is not allowed", () => {
+    const result = align("era uma vez um muito esperto", STORY, 0, fluent);
+    expect(result.nextIndex).toBe(4);
+    expect(result.operations.every((operation) => operation.type === "match")).toBe(true);
+  });
+
+  it("reports where each word was said in the transcript", () => {
+    expect(align("hum era uma").operations[1]).toMatchObject({ type: "match", spokenRange: [1, 1] });
+  });
+});
+
+describe("alignAlternatives", () => {
+  const expected = "ele usava botas grandes".split(" ");
+
+  it("keeps the alternative that matches the most words", () => {
+    const result = alignAlternatives(
+      [
+        { transcript: "ele usava luvas", confidence: 0.7 },
+        { transcript: "ele usava botas", confidence: 0.6 },
+      ],
+      expected,
+      0
+    );
+    expect(result.transcript).toBe("ele usava botas");
+    expect(result.nextIndex).toBe(3);
+  });
+
+  it("ignores unlikely alternatives", () => {
+    const result = alignAlternatives(
+      [
+        { transcript: "ele usava luvas", confidence: 0.7 },
+        { transcript: "ele usava botas", confidence: 0.1 },
+      ],
+      expected,
+      0
+    );
+    expect(result.transcript).toBe("ele usava luvas");
+  });
+});
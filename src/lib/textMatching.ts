@@ -1,3 +1,8 @@
+import { soundsAlike } from "./phonetics";
+import { toSpokenForm, toSpokenWords } from "./spokenForm";
+import { DEFAULT_MATCHING_OPTIONS, type MatchingOptions } from "./strictness";
+import { splitIntoParts, splitIntoSpokenParts, tokenize } from "./tokenizer";
+
 // Normalizes text for comparison (removes accents, punctuation, lowercase)
 export const normalizeText = (text: string): string => {
   return text
@@ -8,44 +13,58 @@ export const normalizeText = (text: string): string => {
     .trim();
 };
 
-// Check if spoken word matches expected word
-export const wordsMatch = (spoken: string, expected: string): boolean => {
+// Lowercase letters and digits with their accents, for profiles where accents matter
+const foldKeepingAccents = (text: string): string =>
+  text.toLowerCase().normalize("NFC").replace(/[^\p{L}\p{N}]/gu, "");
+
+// Accent marks of a word in order, without the cedilla, which is spelling
+// rather than accent: "céu" gives the acute, "seu" and "caça" nothing
+const accentMarks = (text: string): string =>
+  text.toLowerCase().normalize("NFD").replace(/[^\u0300-\u036f]|\u0327/g, "");
+
+// Check if spoken word matches expected word under the given strictness.
+// Called for every cell of the alignment matrix, so it does not log.
+export const wordsMatch = (
+  spoken: string,
+  expected: string,
+  options: MatchingOptions = DEFAULT_MATCHING_OPTIONS
+): boolean => {
   const normalizedSpoken = normalizeText(spoken);
   const normalizedExpected = normalizeText(expected);
+  const sameAccents = !options.accentsMatter || foldKeepingAccents(spoken) === foldKeepingAccents(expected);
   
   // Exact match
-  if (normalizedSpoken === normalizedExpected) {
-    console.log(`    ✓ Exact match`);
+  if (normalizedSpoken === normalizedExpected) return sameAccents;
+  
+  // Same number or abbreviation written differently, e.g. "2" for "dois" or "Sr." for "senhor"
+  const fold = options.accentsMatter ? foldKeepingAccents : normalizeText;
+  if (fold(toSpokenForm([spoken]).join(" ")) === fold(toSpokenForm([expected]).join(" "))) return true;
+  
+  // Spelled differently but pronounced the same, e.g. "xuva" for "chuva".
+  // When accents matter the accents must still agree, so "avo" is not "avó".
+  if (
+    options.phonetic &&
+    soundsAlike(spoken, expected) &&
+    (!options.accentsMatter || accentMarks(spoken) === accentMarks(expected))
+  ) {
     return true;
   }
   
   // Only use fuzzy matching if words are similar in length
   // This prevents "desde" matching "vez", etc.
   const lengthDiff = Math.abs(normalizedSpoken.length - normalizedExpected.length);
+  if (lengthDiff > options.maxLengthDifference) return false;
   
-  // For very short words (1-2 letters), allow more length difference but require high similarity
-  if (normalizedExpected.length <= 2 && lengthDiff <= 2) {
-    const similarity = calculateSimilarity(normalizedSpoken, normalizedExpected);
-    if (similarity >= 0.6) {
-      console.log(`    ✓ Short word match (${(similarity * 100).toFixed(0)}% similar)`);
-      return true;
-    }
-  }
+  // Accents count as letters when they matter
+  const similarity = options.accentsMatter
+    ? calculateSimilarity(foldKeepingAccents(spoken), foldKeepingAccents(expected))
+    : calculateSimilarity(normalizedSpoken, normalizedExpected);
   
-  // For normal words, require similar length and good similarity
-  if (lengthDiff <= 2) {
-    const similarity = calculateSimilarity(normalizedSpoken, normalizedExpected);
-    if (similarity >= 0.8) {
-      console.log(`    ✓ Fuzzy match (${(similarity * 100).toFixed(0)}% similar)`);
-      return true;
-    }
-    console.log(`    ✗ No match (similarity: ${(similarity * 100).toFixed(0)}%, need 80%+)`);
-  } else {
-    console.log(`    ✗ No match (length diff: ${lengthDiff} chars)`);
-  }
+  // For very short words (1-2 letters), allow more length difference but require high similarity
+  if (normalizedExpected.length <= 2) return similarity >= options.shortWordSimilarity;
   
-  // If lengths are very different, no match
-  return false;
+  // For normal words, require good similarity
+  return similarity >= options.wordSimilarity;
 };
 
 // Simple Levenshtein-based similarity
@@ -90,10 +109,284 @@ const levenshteinDistance = (str1: string, str2: string): number => {
   return matrix[str2.length][str1.length];
 };
 
-// Extract words from spoken text
+// Extract words from spoken text, without punctuation and with numbers, money
+// and times spelled out the way they are read ("2" → "dois")
 export const extractWords = (text: string): string[] => {
-  return text
-    .toLowerCase()
-    .split(/\s+/)
-    .filter(word => word.length > 0);
+  return toSpokenForm(tokenize(text.toLowerCase()).map((token) => token.text));
+};
+
+// Epoch milliseconds at which a word began and ended
+export interface WordTiming {
+  start: number;
+  end: number;
+}
+
+// Times of the words extractWords returns for the text, given the times of
+// its words as separated by spaces. Words a token expands into share its time;
+// words with no known time are undefined.
+export const extractWordTimings = (text: string, timings: WordTiming[]): (WordTiming | undefined)[] => {
+  const lower = text.toLowerCase();
+  const chunkEnds = Array.from(lower.matchAll(/\S+/g), (chunk) => (chunk.index ?? 0) + chunk[0].length);
+  const tokens = tokenize(lower);
+  return toSpokenWords(tokens.map((token) => token.text)).flatMap((words, index) => {
+    const chunk = chunkEnds.findIndex((end) => tokens[index].start < end);
+    return words.map(() => timings[chunk]);
+  });
+};
+
+// Sequence alignment of a transcript against the words the child should read next
+
+export type AlignmentOperation =
+  // Spoken word matched the expected word
+  | { type: "match"; spoken: string; expectedIndex: number; spokenRange?: SpokenRange }
+  // Spoken word took the place of a different expected word
+  | { type: "substitution"; spoken: string; expectedIndex: number; spokenRange?: SpokenRange }
+  // Expected word was skipped
+  | { type: "omission"; expectedIndex: number }
+  // Spoken word that is not in the text, e.g. a filler like "hum"
+  | { type: "insertion"; spoken: string };
+
+// First and last of the aligned spoken words an operation covers, by index
+export type SpokenRange = [first: number, last: number];
+
+export interface AlignmentResult {
+  operations: AlignmentOperation[];
+  // Index of the next word to read once the aligned words are accepted
+  nextIndex: number;
+}
+
+// Expected words looked at beyond the length of the transcript
+export const ALIGNMENT_WINDOW = 6;
+
+// Hesitations cost less than other insertions so they never displace a match
+const FILLER_WORDS = new Set(["e", "eh", "ah", "hum", "hm", "uhm", "hein", "ahn", "ne"]);
+
+const ALIGNMENT_COSTS = { substitution: 1, omission: 1, insertion: 1, filler: 0.5 };
+
+export const isFillerWord = (spoken: string) => FILLER_WORDS.has(normalizeText(spoken));
+
+const insertionCost = (spoken: string) =>
+  isFillerWord(spoken) ? ALIGNMENT_COSTS.filler : ALIGNMENT_COSTS.insertion;
+
+// Alignment of single parts, see tokenizer.ts; spokenPart and expectedPart
+// index the spoken and expected parts
+type PartOperation =
+  | { type: "match" | "substitution"; spoken: string; spokenPart: number; expectedPart: number }
+  | { type: "omission"; expectedPart: number }
+  | { type: "insertion"; spoken: string; spokenPart: number };
+
+// Needleman-Wunsch over parts. The whole transcript must be aligned but
+// expected parts after the last one reached are free, since the child has not
+// read them yet.
+const alignParts = (spoken: string[], expected: string[], options: MatchingOptions): PartOperation[] => {
+  const rows = spoken.length;
+  const columns = expected.length;
+
+  // cost[i][j]: best cost of aligning the first i spoken and first j expected parts
+  const cost: number[][] = Array.from({ length: rows + 1 }, () => new Array(columns + 1).fill(0));
+  const matches: boolean[][] = spoken.map((part) => expected.map((word) => wordsMatch(part, word, options)));
+
+  for (let i = 1; i <= rows; i++) cost[i][0] = cost[i - 1][0] + insertionCost(spoken[i - 1]);
+  for (let j = 1; j <= columns; j++) cost[0][j] = cost[0][j - 1] + ALIGNMENT_COSTS.omission;
+
+  for (let i = 1; i <= rows; i++) {
+    for (let j = 1; j <= columns; j++) {
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + (matches[i - 1][j - 1] ? 0 : ALIGNMENT_COSTS.substitution),
+        cost[i - 1][j] + insertionCost(spoken[i - 1]),
+        cost[i][j - 1] + ALIGNMENT_COSTS.omission
+      );
+    }
+  }
+
+  // Best end column; on ties reach further so misread words are still reported
+  let end = 0;
+  for (let j = 1; j <= columns; j++) {
+    if (cost[rows][j] <= cost[rows][end]) end = j;
+  }
+
+  const operations: PartOperation[] = [];
+  let i = rows;
+  let j = end;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const isMatch = matches[i - 1][j - 1];
+      const diagonal = cost[i - 1][j - 1] + (isMatch ? 0 : ALIGNMENT_COSTS.substitution);
+      if (cost[i][j] === diagonal) {
+        operations.push({
+          type: isMatch ? "match" : "substitution",
+          spoken: spoken[i - 1],
+          spokenPart: i - 1,
+          expectedPart: j - 1,
+        });
+        i--;
+        j--;
+        continue;
+      }
+    }
+    if (i > 0 && cost[i][j] === cost[i - 1][j] + insertionCost(spoken[i - 1])) {
+      operations.push({ type: "insertion", spoken: spoken[i - 1], spokenPart: i - 1 });
+      i--;
+    } else {
+      operations.push({ type: "omission", expectedPart: j - 1 });
+      j--;
+    }
+  }
+  return operations.reverse();
+};
+
+// Aligns the spoken words with the expected words starting at startIndex.
+// Words are compared by parts (see wordParts), so "pé-de-feijão" can be read
+// as three spoken words and "de ele" satisfies "dele", and in spoken form, so
+// "vinte e um" satisfies "21". The cursor advances past the last word whose
+// parts were all reached; words skipped or misread before it are reported as
+// omissions and substitutions.
+export const alignTranscript = (
+  spokenWords: string[],
+  expectedWords: string[],
+  startIndex: number,
+  options: MatchingOptions = DEFAULT_MATCHING_OPTIONS,
+  window = ALIGNMENT_WINDOW
+): AlignmentResult => {
+  const spokenParts = splitIntoParts(spokenWords);
+  const spoken = spokenParts.map((part) => part.text);
+  const windowEnd = Math.min(expectedWords.length, startIndex + spoken.length + window);
+  const expected = splitIntoSpokenParts(expectedWords, startIndex, windowEnd);
+  const partOperations = alignParts(spoken, expected.map((part) => part.text), options);
+
+  // Words stop being read at the last matched part; a word read only halfway
+  // stays the current word
+  const lastMatch = partOperations.reduce(
+    (last, operation) => (operation.type === "match" ? operation.expectedPart : last),
+    -1
+  );
+  const lastMatchWord = lastMatch >= 0 ? expected[lastMatch].wordIndex : startIndex - 1;
+  const wordFinished = lastMatch === expected.length - 1 || expected[lastMatch + 1]?.wordIndex !== lastMatchWord;
+  let nextIndex = lastMatch < 0 || wordFinished ? lastMatchWord + 1 : lastMatchWord;
+  // Words said together with the previous one, like the amount after "R$",
+  // have no parts of their own and are read with it
+  if (lastMatch >= 0 && wordFinished) {
+    while (nextIndex < windowEnd && !expected.some((part) => part.wordIndex === nextIndex)) nextIndex++;
+  }
+
+  // Group the part operations of each word, keeping insertions in place
+  const byWord = new Map<number, PartOperation[]>();
+  const sequence: (number | PartOperation)[] = [];
+  partOperations.forEach((operation) => {
+    if (operation.type === "insertion") {
+      sequence.push(operation);
+      return;
+    }
+    const wordIndex = expected[operation.expectedPart].wordIndex;
+    if (!byWord.has(wordIndex)) {
+      byWord.set(wordIndex, []);
+      sequence.push(wordIndex);
+    }
+    byWord.get(wordIndex)?.push(operation);
+  });
+
+  const wordOperations = sequence.flatMap((entry): AlignmentOperation[] => {
+    if (typeof entry !== "number") {
+      return entry.type === "insertion" ? [{ type: "insertion", spoken: entry.spoken }] : [];
+    }
+    const wordIndex = entry;
+    const parts = byWord.get(wordIndex) ?? [];
+    const said = parts.flatMap((part) => ("spoken" in part ? [part] : []));
+    const spokenText = said.map((part) => part.spoken).join(" ");
+    const spokenRange: SpokenRange | undefined =
+      said.length > 0
+        ? [spokenParts[said[0].spokenPart].wordIndex, spokenParts[said[said.length - 1].spokenPart].wordIndex]
+        : undefined;
+
+    if (wordIndex < nextIndex) {
+      if (parts.every((part) => part.type === "match")) {
+        return [{ type: "match", spoken: spokenText, expectedIndex: wordIndex, spokenRange }];
+      }
+      if (said.length === 0) return [{ type: "omission", expectedIndex: wordIndex }];
+      return [{ type: "substitution", spoken: spokenText, expectedIndex: wordIndex, spokenRange }];
+    }
+
+    // The word at the cursor counts as misread, so the child tries it again
+    if (wordIndex === nextIndex && parts.some((part) => part.type === "substitution")) {
+      return [{ type: "substitution", spoken: spokenText, expectedIndex: wordIndex, spokenRange }];
+    }
+    return [];
+  });
+
+  // Words with no parts, like a lone dash, are passed over silently
+  const reported = new Set(byWord.keys());
+  for (let wordIndex = startIndex; wordIndex < nextIndex; wordIndex++) {
+    if (!reported.has(wordIndex)) {
+      wordOperations.push({ type: "match", spoken: "", expectedIndex: wordIndex });
+    }
+  }
+
+  if (options.allowSkipping) return { operations: wordOperations, nextIndex };
+
+  // Without skipping the cursor stops at the first word not read right, and
+  // what was said after it is left for the next try
+  const firstMiss = wordOperations.findIndex(
+    (operation) => operation.type === "substitution" || operation.type === "omission"
+  );
+  if (firstMiss === -1) return { operations: wordOperations, nextIndex };
+
+  const miss = wordOperations[firstMiss] as Exclude<AlignmentOperation, { type: "insertion" }>;
+  return {
+    operations: [...wordOperations.slice(0, firstMiss), ...(miss.type === "substitution" ? [miss] : [])],
+    nextIndex: miss.expectedIndex,
+  };
+};
+
+// Recognizer hypotheses for one utterance, most likely first
+export interface TranscriptAlternative {
+  transcript: string;
+  // 0-1; browsers that do not score alternatives report 1
+  confidence: number;
+  // Times of the transcript's words, one per word separated by spaces, when
+  // the recognizer knows them
+  wordTimings?: WordTiming[];
+}
+
+// Confidence an alternative other than the best one needs to be considered
+export const MIN_ALTERNATIVE_CONFIDENCE = 0.3;
+
+export interface AlignedAlternative extends AlignmentResult {
+  transcript: string;
+  // Times of the aligned spoken words, which the spokenRange of operations
+  // index; empty when the recognizer gave none
+  spokenTimings: (WordTiming | undefined)[];
+}
+
+// Aligns each sufficiently confident alternative and keeps the one that
+// matches the most words, so an expected word is accepted when any of them
+// heard it. Ties go to the more likely alternative.
+export const alignAlternatives = (
+  alternatives: TranscriptAlternative[],
+  expectedWords: string[],
+  startIndex: number,
+  options: MatchingOptions = DEFAULT_MATCHING_OPTIONS
+): AlignedAlternative => {
+  const candidates = alternatives.filter(
+    (alternative, index) => index === 0 || alternative.confidence >= MIN_ALTERNATIVE_CONFIDENCE
+  );
+
+  let best: AlignedAlternative | undefined;
+  let bestMatches = -1;
+  for (const { transcript, wordTimings } of candidates) {
+    const spokenWords = extractWords(transcript);
+    if (spokenWords.length === 0) continue;
+
+    const alignment = alignTranscript(spokenWords, expectedWords, startIndex, options);
+    const matches = alignment.operations.filter((operation) => operation.type === "match").length;
+    if (matches > bestMatches) {
+      best = {
+        ...alignment,
+        transcript,
+        spokenTimings: wordTimings ? extractWordTimings(transcript, wordTimings) : [],
+      };
+      bestMatches = matches;
+    }
+  }
+
+  return best ?? { operations: [], nextIndex: startIndex, transcript: alternatives[0]?.transcript ?? "", spokenTimings: [] };
 };
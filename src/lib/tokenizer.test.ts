@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { splitIntoSpokenParts, tokenize, wordParts } from "./tokenizer";
+
+describe("wordParts", () => {
+  it.each([
+    ["gato", ["gato"]],
+    ["Gato,", ["gato"]],
+    ["pé-de-feijão", ["pé", "de", "feijão"]],
+    ["dele", ["de", "ele"]],
+    ["no", ["em", "o"]],
+    ["à", ["a", "a"]],
+    ["conhecê-lo", ["conhecer", "o"]],
+    ["pegá-la", ["pegar", "a"]],
+    ["parti-los", ["partir", "os"]],
+    ["guarda-chuva", ["guarda", "chuva"]],
+  ])("splits %s into %j", (word, parts) => {
+    expect(wordParts(word)).toEqual(parts);
+  });
+
+  it("does not read a contraction after a hyphen", () => {
+    expect(wordParts("bem-te-vi")).toEqual(["bem", "te", "vi"]);
+    expect(wordParts("fruta-do-conde")).toEqual(["fruta", "do", "conde"]);
+  });
+});
+
+describe("splitIntoSpokenParts", () => {
+  it("tags each part with the written word it came from", () => {
+    expect(splitIntoSpokenParts(["21", "dias"], 0, 2)).toEqual([
+      { text: "vinte", wordIndex: 0 },
+      { text: "e", wordIndex: 0 },
+      { text: "um", wordIndex: 0 },
+      { text: "dias", wordIndex: 1 },
+    ]);
+  });
+
+  it("reads the words on either side of the range", () => {
+    const words = ["tinha", "2", "casas"];
+    expect(splitIntoSpokenParts(words, 1, 2).map((part) => part.text)).toEqual(["duas"]);
+  });
+
+  it("leaves no parts for an amount said with its R$", () => {
+    const parts = splitIntoSpokenParts(["custa", "R$", "5", "hoje"], 0, 4);
+    expect(parts.map((part) => part.wordIndex)).toEqual([0, 1, 1, 3]);
+  });
+});
+
+describe("tokenize", () => {
+  it("keeps punctuation around the words", () => {
+    const [first, second] = tokenize("“Olá, gato!”");
+    expect(first).toMatchObject({ text: "Olá", normalized: "ola", leading: "“", trailing: "," });
+    expect(second).toMatchObject({ text: "gato", trailing: "!”" });
+  });
+
+  it("gives character ranges in the original text", () => {
+    const text = "Era uma vez";
+    expect(tokenize(text).map(({ start, end }) => text.slice(start, end))).toEqual(["Era", "uma", "vez"]);
+  });
+
+  it("counts sentences", () => {
+    expect(tokenize("O gato miou. O cão latiu! Fim?").map((token) => token.sentenceIndex)).toEqual([
+      0, 0, 0, 1, 1, 1, 2,
+    ]);
+  });
+
+  it("does not end the sentence at an abbreviation", () => {
+    expect(tokenize("O Sr. Lobo chegou.").map((token) => token.sentenceIndex)).toEqual([0, 0, 0, 0]);
+  });
+
+  it("keeps symbols that belong to a word", () => {
+    expect(tokenize("Custa R$ 5, ou 50% do 1º prêmio.").map((token) => token.text)).toEqual([
+      "Custa",
+      "R$",
+      "5",
+      "ou",
+      "50%",
+      "do",
+      "1º",
+      "prêmio",
+    ]);
+  });
+
+  it("shows a dash standing on its own before the next word", () => {
+    const tokens = tokenize("Disse — baixinho — que sim");
+    expect(tokens[1]).toMatchObject({ text: "baixinho", leading: "— " });
+    expect(tokens[2]).toMatchObject({ text: "que", leading: "— " });
+  });
+});
@@ -0,0 +1,175 @@
+import { toSpokenWords } from "./spokenForm";
+import { normalizeText } from "./textMatching";
+
+// Splits words into the parts a recognizer may return for them. A written word
+// and what the child says do not always line up one to one: "pé-de-feijão"
+// comes back as three words, "dele" may come back as "de ele", and
+// "conhecê-lo" as "conhecer o". Both the story text and the transcript are cut
+// into these parts before they are compared, so one written word can be
+// satisfied by several spoken words and the other way round.
+
+// Preposition and article or pronoun contractions, with their full form
+const CONTRACTIONS: Record<string, string[]> = {
+  ao: ["a", "o"],
+  aos: ["a", "os"],
+  à: ["a", "a"],
+  às: ["a", "as"],
+  do: ["de", "o"],
+  da: ["de", "a"],
+  dos: ["de", "os"],
+  das: ["de", "as"],
+  dele: ["de", "ele"],
+  dela: ["de", "ela"],
+  deles: ["de", "eles"],
+  delas: ["de", "elas"],
+  disso: ["de", "isso"],
+  disto: ["de", "isto"],
+  daquilo: ["de", "aquilo"],
+  daquele: ["de", "aquele"],
+  daquela: ["de", "aquela"],
+  daqui: ["de", "aqui"],
+  dali: ["de", "ali"],
+  no: ["em", "o"],
+  na: ["em", "a"],
+  nos: ["em", "os"],
+  nas: ["em", "as"],
+  nele: ["em", "ele"],
+  nela: ["em", "ela"],
+  neles: ["em", "eles"],
+  nelas: ["em", "elas"],
+  nisso: ["em", "isso"],
+  nisto: ["em", "isto"],
+  naquilo: ["em", "aquilo"],
+  naquele: ["em", "aquele"],
+  naquela: ["em", "aquela"],
+  num: ["em", "um"],
+  numa: ["em", "uma"],
+  pelo: ["por", "o"],
+  pela: ["por", "a"],
+  pelos: ["por", "os"],
+  pelas: ["por", "as"],
+};
+
+// Enclitic pronouns after an infinitive lose the l the verb's r turned into:
+// "conhecê-lo" is "conhecer" + "o"
+const ENCLITICS: Record<string, string> = {
+  lo: "o",
+  la: "a",
+  los: "os",
+  las: "as",
+};
+
+// Verb before an "-lo" enclitic, with the infinitive r back: "conhecê" →
+// "conhecer"; -ir verbs take no accent, as in "parti-los"
+const restoreInfinitive = (verb: string) => verb.replace(/[áâ]$/, "ar").replace(/[êé]$/, "er").replace(/[ií]$/, "ir");
+
+// Parts a written or spoken word is compared by, lowercased
+export const wordParts = (word: string): string[] => {
+  const pieces = word
+    .toLowerCase()
+    .replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "")
+    .split("-")
+    .filter((piece) => piece.length > 0);
+
+  // A single piece is a plain word or a contraction; after a hyphen it can
+  // only be a compound part or a clitic, never a contraction
+  if (pieces.length === 1) return CONTRACTIONS[pieces[0]] ?? pieces;
+
+  return pieces.flatMap((piece, index) => {
+    const enclitic = index > 0 ? ENCLITICS[piece] : undefined;
+    if (enclitic) return [enclitic];
+    if (ENCLITICS[pieces[index + 1]]) return [restoreInfinitive(piece)];
+    return [piece];
+  });
+};
+
+export interface WordPart {
+  text: string;
+  // Index of the written word the part belongs to
+  wordIndex: number;
+}
+
+// Parts of consecutive words, each tagged with the word it came from
+export const splitIntoParts = (words: string[], firstWordIndex = 0): WordPart[] =>
+  words.flatMap((word, offset) =>
+    wordParts(word).map((text) => ({ text, wordIndex: firstWordIndex + offset }))
+  );
+
+// Parts of the written words from start to end, in spoken form: "21 dias"
+// gives "vinte", "e", "um", "dias", with the first three parts tagged with the
+// index of "21". The words on either side are read too, so "2" before "casas"
+// becomes "duas" and the amount after "R$" is said with it.
+export const splitIntoSpokenParts = (words: string[], start: number, end: number): WordPart[] => {
+  const from = Math.max(0, start - 1);
+  const spoken = toSpokenWords(words.slice(from, end + 1));
+  return words.slice(start, end).flatMap((_, offset) =>
+    spoken[start - from + offset].flatMap(wordParts).map((text) => ({ text, wordIndex: start + offset }))
+  );
+};
+
+// Tokens of a text as shown in the reader
+
+export interface Token {
+  // Word as written, without the punctuation around it
+  text: string;
+  // Lowercase, accent and punctuation free form used for comparisons
+  normalized: string;
+  // Character range of the word in the tokenized text
+  start: number;
+  end: number;
+  sentenceIndex: number;
+  // Punctuation shown before and after the word, e.g. "“" and ","
+  leading: string;
+  trailing: string;
+}
+
+// Characters that belong to a word; "$", "%" and "º" keep "R$", "50%" and "1º" whole
+const WORD_CHAR = /[\p{L}\p{N}$%ºª°]/u;
+const SENTENCE_END = /[.!?…]/;
+
+// Words whose dot does not end the sentence
+const DOTTED_ABBREVIATIONS = new Set(["sr", "sra", "srta", "dr", "dra", "prof", "profa", "sto", "sta", "av"]);
+
+export const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let sentenceIndex = 0;
+  // Punctuation standing on its own, like a dash, is shown before the next word
+  let pendingLeading = "";
+
+  for (const chunk of text.matchAll(/\S+/g)) {
+    const chunkText = chunk[0];
+    const chunkStart = chunk.index ?? 0;
+    const chars = Array.from(chunkText);
+    const first = chars.findIndex((char) => WORD_CHAR.test(char));
+
+    if (first === -1) {
+      pendingLeading += `${chunkText} `;
+      continue;
+    }
+
+    const last = chars.length - 1 - [...chars].reverse().findIndex((char) => WORD_CHAR.test(char));
+    const leading = chars.slice(0, first).join("");
+    const word = chars.slice(first, last + 1).join("");
+    const trailing = chars.slice(last + 1).join("");
+    const start = chunkStart + leading.length;
+
+    tokens.push({
+      text: word,
+      normalized: normalizeText(word),
+      start,
+      end: start + word.length,
+      sentenceIndex,
+      leading: pendingLeading + leading,
+      trailing,
+    });
+    pendingLeading = "";
+
+    if (SENTENCE_END.test(trailing) && !DOTTED_ABBREVIATIONS.has(word.toLowerCase())) sentenceIndex++;
+  }
+
+  // Punctuation after the last word stays with it
+  const lastToken = tokens[tokens.length - 1];
+  if (lastToken && pendingLeading) lastToken.trailing += ` ${pendingLeading.trim()}`;
+
+  return tokens;
+};
@@ -0,0 +1,67 @@
+import { extractWords, normalizeText, type TranscriptAlternative } from "./textMatching";
+import { splitIntoSpokenParts, wordParts } from "./tokenizer";
+
+// Biases recognition toward the story being read. Children's pronunciation
+// makes a generic recognizer guess common adult words ("libra") instead of
+// the story's words ("lebre"). Engines with a grammar hook receive the
+// vocabulary directly; every result is also rescored so that, among the
+// alternatives, the ones made of story words, and above all of the next words
+// to read, come first.
+
+export interface RecognitionVocabulary {
+  // Every word of the story, lowercase and in spoken form, without repeats
+  words: string[];
+  // The next words to read, in reading order
+  upcoming: string[];
+}
+
+// Words after the cursor treated as the most likely to be said next
+export const UPCOMING_WORDS = 5;
+
+// Confidence added for each spoken word found in the upcoming words or
+// elsewhere in the story, averaged over the alternative's words
+const UPCOMING_BONUS = 0.3;
+const STORY_BONUS = 0.15;
+
+// Parts of a transcript in spoken form
+const transcriptParts = (transcript: string) => extractWords(transcript).flatMap(wordParts);
+
+// Story words in spoken form, as the matcher compares them
+const storyParts = (words: string[], start: number, end: number) =>
+  splitIntoSpokenParts(words, start, Math.min(end, words.length)).map((part) => part.text);
+
+export const storyVocabulary = (
+  expectedWords: string[],
+  currentWordIndex: number,
+  lookahead = UPCOMING_WORDS
+): RecognitionVocabulary => ({
+  words: [...new Set(storyParts(expectedWords, 0, expectedWords.length))],
+  upcoming: storyParts(expectedWords, currentWordIndex, currentWordIndex + lookahead),
+});
+
+// Alternatives reordered by their confidence plus the vocabulary bonus. The
+// bonus only ranks them: each keeps the recognizer's own confidence, so it
+// cannot lift a guess over a confidence threshold. Ties keep the recognizer's
+// order.
+export const rescoreAlternatives = (
+  alternatives: TranscriptAlternative[],
+  vocabulary: RecognitionVocabulary
+): TranscriptAlternative[] => {
+  if (alternatives.length < 2) return alternatives;
+
+  const storyWords = new Set(vocabulary.words.map(normalizeText));
+  const upcomingWords = new Set(vocabulary.upcoming.map(normalizeText));
+
+  return alternatives
+    .map((alternative, rank) => {
+      const spoken = transcriptParts(alternative.transcript).map(normalizeText);
+      const bonus =
+        spoken.reduce((sum, word) => {
+          if (upcomingWords.has(word)) return sum + UPCOMING_BONUS;
+          return storyWords.has(word) ? sum + STORY_BONUS : sum;
+        }, 0) / Math.max(spoken.length, 1);
+      return { alternative, score: alternative.confidence + bonus, rank };
+    })
+    .sort((a, b) => b.score - a.score || a.rank - b.rank)
+    .map(({ alternative }) => alternative);
+};
@@ -0,0 +1,323 @@
+import type { RecognitionEngine, RecognitionEngineFactory } from "./recognitionEngine";
+import type { TranscriptAlternative, WordTiming } from "./textMatching";
+
+// Recognition engine backed by the browser's Web Speech API
+// (SpeechRecognition, webkitSpeechRecognition in Safari).
+
+interface SpeechRecognitionEvent {
+  results: SpeechRecognitionResultList;
+  resultIndex: number;
+}
+
+interface SpeechRecognitionResultList {
+  length: number;
+  item(index: number): SpeechRecognitionResult;
+  [index: number]: SpeechRecognitionResult;
+}
+
+interface SpeechRecognitionResult {
+  isFinal: boolean;
+  length: number;
+  item(index: number): SpeechRecognitionAlternative;
+  [index: number]: SpeechRecognitionAlternative;
+}
+
+interface SpeechRecognitionAlternative {
+  transcript: string;
+  confidence: number;
+}
+
+interface SpeechGrammarList {
+  addFromString(grammar: string, weight?: number): void;
+}
+
+interface SpeechRecognition extends EventTarget {
+  grammars: SpeechGrammarList;
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  maxAlternatives: number;
+  start(): void;
+  stop(): void;
+  abort(): void;
+  onresult: ((event: SpeechRecognitionEvent) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  onstart: (() => void) | null;
+}
+
+declare global {
+  interface Window {
+    SpeechRecognition: new () => SpeechRecognition;
+    webkitSpeechRecognition: new () => SpeechRecognition;
+    SpeechGrammarList?: new () => SpeechGrammarList;
+    webkitSpeechGrammarList?: new () => SpeechGrammarList;
+  }
+}
+
+// Errors after which the recognizer cannot keep listening
+export const CRITICAL_ERRORS = ["not-allowed", "audio-capture", "service-not-allowed"];
+
+// Errors handled by restarting, without reporting them
+export const UNREPORTED_ERRORS = ["aborted", "no-speech", "network"];
+
+// Pause between a recognition session ending and the next one starting
+export const RESTART_DELAY = 150;
+
+// Sessions shorter than this count as a quick restart; after too many in a
+// row the engine gives up instead of looping
+export const QUICK_RESTART_DURATION = 1000;
+export const MAX_QUICK_RESTARTS = 5;
+export const RESTART_LOOP_MESSAGE = "O reconhecimento de voz não está funcionando. Tente novamente.";
+
+// Times of a final transcript's words. Web Speech gives none, so each word
+// starts when a word at its position first showed up in the interim results
+// and ends when the next one did; the last word ends with the final result.
+const timeWords = (transcript: string, heardAt: number[], finalAt: number): WordTiming[] => {
+  const count = transcript.split(/\s+/).filter((word) => word.length > 0).length;
+  return Array.from({ length: count }, (_, index) => {
+    const start = Math.min(heardAt[index] ?? finalAt, finalAt);
+    return { start, end: Math.max(start, heardAt[index + 1] ?? finalAt) };
+  });
+};
+
+// Joins the alternatives of consecutive final results position by position.
+// Results with fewer alternatives contribute their best one; the confidence
+// of a joined alternative is that of its least confident piece.
+const combineAlternatives = (results: SpeechRecognitionResult[]): TranscriptAlternative[] => {
+  const count = Math.max(0, ...results.map((result) => result.length));
+  return Array.from({ length: count }, (_, index) =>
+    results.reduce<TranscriptAlternative>(
+      (combined, result) => {
+        const alternative = result[Math.min(index, result.length - 1)];
+        // Safari often doesn't provide confidence - treat undefined as 1.0 (trust it)
+        const confidence = alternative.confidence ?? 1.0;
+        return {
+          transcript: `${combined.transcript}${alternative.transcript}`,
+          confidence: Math.min(combined.confidence, confidence),
+        };
+      },
+      { transcript: "", confidence: 1.0 }
+    )
+  ).map((alternative) => ({ ...alternative, transcript: alternative.transcript.trim().toLowerCase() }));
+};
+
+// Weights of the story's words and of the next words to read in the grammar
+const STORY_GRAMMAR_WEIGHT = 0.5;
+const UPCOMING_GRAMMAR_WEIGHT = 1;
+
+// Words a JSGF grammar can hold as plain tokens. Numbers too big to spell
+// out, symbols and apostrophes would break the grammar, so those words are
+// left out.
+const grammarWords = (words: string[]) => words.filter((word) => /^\p{L}+$/u.test(word));
+
+// JSGF rule accepting any one of the words
+const wordsGrammar = (name: string, words: string[]) =>
+  `#JSGF V1.0; grammar ${name}; public <${name}> = ${words.join(" | ")} ;`;
+
+const errorName = (error: unknown) => (error instanceof Error ? error.name : "");
+
+// Runs the recognizer with continuous:false in every browser, restarting it
+// after each utterance. Continuous mode times out with network errors and
+// behaves differently in Safari, so manual restarts keep all browsers alike.
+export const createWebSpeechEngine: RecognitionEngineFactory = ({ language, maxAlternatives }, events) => {
+  const SpeechRecognitionAPI =
+    typeof window !== "undefined" ? window.SpeechRecognition || window.webkitSpeechRecognition : undefined;
+
+  if (!SpeechRecognitionAPI) {
+    console.warn("Speech Recognition API not supported in this browser");
+    return { isSupported: false, usesMicrophone: false, start: () => {}, stop: () => {}, dispose: () => {} };
+  }
+
+  const SpeechGrammarListAPI = window.SpeechGrammarList || window.webkitSpeechGrammarList;
+  const recognition = new SpeechRecognitionAPI();
+  recognition.continuous = false;
+  recognition.interimResults = true;
+  recognition.lang = language;
+  recognition.maxAlternatives = maxAlternatives;
+
+  let shouldBeListening = false;
+  // Whether the current listening run has started and not yet ended
+  let isListening = false;
+  let restartTimeout: ReturnType<typeof setTimeout> | undefined;
+  let consecutiveRestarts = 0;
+  let lastStartTime = 0;
+  // When each word of the utterance being recognized was first heard, by position
+  let heardAt: number[] = [];
+  let sessionId = 0;
+
+  const finishListening = () => {
+    if (!isListening) return;
+    isListening = false;
+    events.onEnd?.();
+  };
+
+  const scheduleRestart = () => {
+    clearTimeout(restartTimeout);
+    restartTimeout = setTimeout(() => {
+      if (!shouldBeListening) return;
+      try {
+        recognition.start();
+      } catch (error) {
+        // Already started - nothing to do
+        if (errorName(error) !== "InvalidStateError") {
+          console.error("Failed to restart recognition:", error);
+        }
+      }
+    }, RESTART_DELAY);
+  };
+
+  const fail = (code: string, message?: string) => {
+    shouldBeListening = false;
+    clearTimeout(restartTimeout);
+    events.onError?.({ code, message, fatal: true });
+    finishListening();
+  };
+
+  recognition.onstart = () => {
+    sessionId++;
+    lastStartTime = Date.now();
+    heardAt = [];
+    console.log(`🟢 recognition.onstart [Session ${sessionId}]`);
+    isListening = true;
+    events.onStart?.();
+  };
+
+  recognition.onend = () => {
+    const duration = Date.now() - lastStartTime;
+    console.log(`🔴 recognition.onend [Session ${sessionId}] (duration: ${duration}ms)`);
+
+    if (!shouldBeListening) {
+      finishListening();
+      return;
+    }
+
+    // Check if we're in a restart loop (ended too quickly)
+    if (duration < QUICK_RESTART_DURATION) {
+      consecutiveRestarts++;
+      if (consecutiveRestarts > MAX_QUICK_RESTARTS) {
+        console.error("Too many quick restarts - stopping auto-restart");
+        fail("restart-loop", RESTART_LOOP_MESSAGE);
+        return;
+      }
+    } else {
+      consecutiveRestarts = 0;
+    }
+    events.onRestart?.(consecutiveRestarts);
+    scheduleRestart();
+  };
+
+  recognition.onresult = (event: SpeechRecognitionEvent) => {
+    const timestamp = Date.now();
+    let interimTranscript = "";
+    const finalResults: SpeechRecognitionResult[] = [];
+
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      const result = event.results[i];
+      if (result.isFinal) finalResults.push(result);
+      else interimTranscript += result[0].transcript;
+    }
+
+    // Interim text is reported even when empty so consumers can clear it
+    const interim = interimTranscript.trim().toLowerCase();
+    events.onResult?.({
+      transcript: interim,
+      alternatives: [{ transcript: interim, confidence: 1.0 }],
+      isFinal: false,
+      timestamp,
+    });
+
+    if (finalResults.length > 0) {
+      const alternatives = combineAlternatives(finalResults).map((alternative) => ({
+        ...alternative,
+        wordTimings: timeWords(alternative.transcript, heardAt, timestamp),
+      }));
+      // Interim words still pending belong to the next utterance
+      heardAt = interim ? interim.split(/\s+/).map(() => timestamp) : [];
+      events.onResult?.({ transcript: alternatives[0].transcript, alternatives, isFinal: true, timestamp });
+      // The session ends after a final result; start the next one right away
+      if (shouldBeListening) scheduleRestart();
+    } else if (interim) {
+      interim.split(/\s+/).forEach((_, index) => {
+        heardAt[index] ??= timestamp;
+      });
+    }
+  };
+
+  recognition.onerror = ({ error }) => {
+    // "aborted" errors are expected during restarts in Safari - ignore them
+    if (error === "aborted" && shouldBeListening) return;
+
+    if (CRITICAL_ERRORS.includes(error)) {
+      console.error("Speech recognition critical error:", error);
+      fail(error);
+    } else if (error === "network") {
+      // Network errors are common in continuous:false mode - onend restarts
+      console.warn("⚠️ Network error (non-critical) - will retry on next restart");
+    } else if (!UNREPORTED_ERRORS.includes(error)) {
+      console.warn("Non-critical recognition error:", error);
+      events.onError?.({ code: error, fatal: false });
+    }
+  };
+
+  const engine: RecognitionEngine = {
+    isSupported: true,
+    usesMicrophone: true,
+
+    // Grammars are read when a session starts, so they apply from the next
+    // restart, which follows every utterance
+    setVocabulary: SpeechGrammarListAPI
+      ? (vocabulary) => {
+          const words = grammarWords(vocabulary.words);
+          const upcoming = grammarWords(vocabulary.upcoming);
+          const grammars = new SpeechGrammarListAPI();
+          if (words.length > 0) grammars.addFromString(wordsGrammar("story", words), STORY_GRAMMAR_WEIGHT);
+          if (upcoming.length > 0) {
+            grammars.addFromString(wordsGrammar("upcoming", upcoming), UPCOMING_GRAMMAR_WEIGHT);
+          }
+          recognition.grammars = grammars;
+        }
+      : undefined,
+
+    start: () => {
+      shouldBeListening = true;
+      consecutiveRestarts = 0;
+      try {
+        recognition.start();
+      } catch (error) {
+        const name = errorName(error);
+        // Recognition is already started - it keeps listening
+        if (name === "InvalidStateError") return;
+        if (name === "NotAllowedError" || (error instanceof Error && error.message.includes("permission"))) {
+          fail("not-allowed", "Permissão do microfone negada.");
+        } else {
+          fail("start-failed", "Erro ao iniciar reconhecimento de voz.");
+        }
+      }
+    },
+
+    stop: () => {
+      shouldBeListening = false;
+      clearTimeout(restartTimeout);
+      try {
+        recognition.stop();
+      } catch (error) {
+        // Ignore errors on stop
+      }
+    },
+
+    dispose: () => {
+      shouldBeListening = false;
+      clearTimeout(restartTimeout);
+      recognition.onstart = recognition.onend = null;
+      recognition.onresult = null;
+      recognition.onerror = null;
+      try {
+        recognition.abort();
+      } catch (error) {
+        // Ignore errors on abort
+      }
+    },
+  };
+  return engine;
+};
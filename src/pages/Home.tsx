@@ -51,7 +51,7 @@ const Home = () => {
             variant="secondary"
             size="lg"
             className="w-full"
-            onClick={() => navigate("/stories")}
+            onClick={() => navigate("/stories/generate")}
           >
             <Sparkles className="w-5 h-5" />
             Criar História Nova
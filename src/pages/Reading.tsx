@@ -5,60 +5,136 @@ import { ReadingWord, WordStatus } from "@/components/ReadingWord";
 import { ProgressBar } from "@/components/ProgressBar";
 import { VoiceButton } from "@/components/VoiceButton";
 import { Mascot } from "@/components/Mascot";
-import { ArrowLeft, X, RotateCcw, ChevronRight, AlertCircle } from "lucide-react";
+import { FluencyReport } from "@/components/FluencyReport";
+import { ArrowLeft, X, RotateCcw, ChevronLeft, ChevronRight, AlertCircle, ClipboardList } from "lucide-react";
 import { useSpeechRecognition } from "@/hooks/useSpeechRecognition";
 import { useSpeechSynthesis } from "@/hooks/useSpeechSynthesis";
-import { wordsMatch, extractWords } from "@/lib/textMatching";
+import { useHesitationMonitor } from "@/hooks/useHesitationMonitor";
+import { useSessionRecorder } from "@/hooks/useSessionRecorder";
+import { alignAlternatives, normalizeText, type TranscriptAlternative } from "@/lib/textMatching";
+import { getStoryById, DEFAULT_STORY_ID } from "@/lib/storyRepository";
+import { paginateStory, findPageIndex } from "@/lib/pagination";
+import {
+  markStoryCompleted,
+  markStoryRead,
+  resumeWordIndex,
+  saveReadingPosition,
+} from "@/lib/readingProgress";
+import {
+  createSession,
+  finishSession,
+  recordHint,
+  recordListening,
+  recordTeacherAssist,
+  recordTranscript,
+  summarizeSession,
+  type ReadingSession,
+} from "@/lib/runningRecord";
+import { saveSession } from "@/lib/readingSessions";
+import { saveSessionAudio } from "@/lib/sessionAudio";
+import { summarizeFluency } from "@/lib/fluency";
+import { splitSyllables } from "@/lib/syllables";
+import type { HintLevel } from "@/lib/hesitation";
+import { isStoppedState, type RecognitionState } from "@/lib/recognitionLifecycle";
+import type { Story } from "@/lib/story";
+import { optionsForProfile, profileForStory } from "@/lib/strictness";
+import { useStrictness } from "@/hooks/useStrictness";
+import { StrictnessSheet } from "@/components/StrictnessSheet";
+import { SessionsSheet } from "@/components/SessionsSheet";
+import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 
-const STORIES_DATA: Record<string, { title: string; emoji: string; text: string }> = {
-  "1": {
-    title: "O Gato de Botas",
-    emoji: "🐱",
-    text: "Era uma vez um gato muito esperto. Ele usava botas grandes e um chapéu bonito. O gato ajudou seu dono a ficar rico.",
-  },
-  "2": {
-    title: "A Tartaruga e a Lebre",
-    emoji: "🐢", 
-    text: "Era uma vez uma tartaruga muito sábia. Um dia, uma lebre veloz passou por ela. A tartaruga venceu a corrida.",
-  },
-  "3": {
-    title: "João e o Pé de Feijão",
-    emoji: "🌱",
-    text: "João plantou um feijão mágico. O feijão cresceu até as nuvens. Lá em cima havia um gigante e muito ouro.",
-  },
-  "4": {
-    title: "A Pequena Sereia",
-    emoji: "🧜‍♀️",
-    text: "Uma sereia vivia no fundo do mar. Ela sonhava em conhecer a terra. Um dia ela nadou para a superfície.",
-  },
-  "5": {
-    title: "O Patinho Feio",
-    emoji: "🦢",
-    text: "Um patinho era diferente dos irmãos. Todos riam dele por ser feio. Mas ele cresceu e virou um lindo cisne.",
-  },
+// Sessions abandoned halfway are kept only if the child read something;
+// returns whether it was saved
+const savePartialSession = (session: ReadingSession): boolean => {
+  if (session.endedAt || session.transcripts.length === 0) return false;
+  saveSession(session);
+  return true;
 };
 
-const Reading = () => {
+// Syllables shown as a hint: the story's own annotation when it has one,
+// otherwise the word split by rule, keeping its capitals
+const syllablesFinder = (story: Story) => {
+  const annotated = new Map<string, string[]>();
+  story.pages.forEach((page) =>
+    page.paragraphs.forEach((paragraph) =>
+      paragraph.sentences.forEach((sentence) =>
+        sentence.annotations.forEach((annotation) => {
+          if (annotation.syllables) annotated.set(normalizeText(annotation.word), annotation.syllables);
+        })
+      )
+    )
+  );
+
+  return (word: string): string[] => {
+    const syllables = annotated.get(normalizeText(word)) ?? splitSyllables(word);
+    if (syllables.join("").length !== word.length) return syllables;
+    let start = 0;
+    return syllables.map((syllable) => word.slice(start, (start += syllable.length)));
+  };
+};
+
+// Line under the title telling what the microphone is doing
+const recognitionStatusText = (state: RecognitionState): string => {
+  switch (state.status) {
+    case "requesting-permission":
+      return "Permita o uso do microfone para começar...";
+    case "starting":
+      return "Ligando o microfone...";
+    case "restarting":
+      if (state.attempt > 0) return "Reconectando o microfone...";
+      return "🎤 Estou ouvindo você ler...";
+    case "listening":
+      return "🎤 Estou ouvindo você ler...";
+    case "failed":
+      return state.error.message ?? "O microfone parou de funcionar.";
+    default:
+      return "Toque no microfone e leia em voz alta!";
+  }
+};
+
+// Words before the start are already read, the one at the start is next
+const initialWordStatuses = (words: string[], startIndex: number): WordStatus[] =>
+  words.map((_, i) => (i < startIndex ? "correct" : i === startIndex ? "current" : "pending"));
+
+const StoryReader = ({ id }: { id: string | undefined }) => {
   const navigate = useNavigate();
-  const { id } = useParams();
   
-  const story = STORIES_DATA[id || "2"] || STORIES_DATA["2"];
+  const story = useMemo(() => getStoryById(id) ?? getStoryById(DEFAULT_STORY_ID), [id]);
   
-  // CRITICAL: Memoize words array to prevent recreation on every render
+  // CRITICAL: Memoize pages and words to prevent recreation on every render
   // Without this, words array changes every render, causing infinite loops
-  const words = useMemo(() => story.text.split(/\s+/), [story.text]);
-  
-  const [currentWordIndex, setCurrentWordIndex] = useState(0);
-  const [wordStatuses, setWordStatuses] = useState<WordStatus[]>(
-    words.map((_, i) => (i === 0 ? "current" : "pending"))
+  const pages = useMemo(() => paginateStory(story), [story]);
+  const words = useMemo(() => pages.flatMap((page) => page.tokens.map((token) => token.text)), [pages]);
+  const syllablesOf = useMemo(() => syllablesFinder(story), [story]);
+  const sentenceOfWord = useMemo(
+    () => pages.flatMap((page) => page.tokens.map((token) => token.sentenceIndex)),
+    [pages]
   );
+  
+  // Pick up where the last session on this story stopped
+  const [startWordIndex] = useState(() => resumeWordIndex(story.id, words.length));
+  const [currentWordIndex, setCurrentWordIndex] = useState(startWordIndex);
+  const [wordStatuses, setWordStatuses] = useState<WordStatus[]>(() => initialWordStatuses(words, startWordIndex));
+  const [pageIndex, setPageIndex] = useState(0);
   const [showCelebration, setShowCelebration] = useState(false);
   const [permissionDenied, setPermissionDenied] = useState(false);
   const celebrationTimeoutRef = useRef<NodeJS.Timeout>();
+  // Running record of this reading, saved when the story is finished or left
+  const [initialSession] = useState(() => createSession(story.id, story.title, words, startWordIndex));
+  const sessionRef = useRef(initialSession);
+  const [finishedSessionId, setFinishedSessionId] = useState<string>();
+
+  // Strictness picked for this story or, failing that, for the child
+  const strictness = useStrictness();
+  const matchingOptions = useMemo(
+    () => optionsForProfile(strictness, profileForStory(strictness, story.id)),
+    [strictness, story.id]
+  );
 
   const progress = (currentWordIndex / words.length) * 100;
   const isComplete = currentWordIndex >= words.length;
+  const page = pages[pageIndex];
   
   // Log only on mount
   useEffect(() => {
@@ -67,10 +143,11 @@ const Reading = () => {
     console.log("Total words:", words.length);
   }, []); // Empty deps = runs once on mount
   
-  // Monitor currentWordIndex changes
+  // Monitor currentWordIndex changes and turn the page once its last word is read
   useEffect(() => {
     console.log("📍 currentWordIndex changed to:", currentWordIndex);
-  }, [currentWordIndex]);
+    setPageIndex(findPageIndex(pages, currentWordIndex));
+  }, [currentWordIndex, pages]);
   
   // Monitor wordStatuses changes
   useEffect(() => {
@@ -80,6 +157,7 @@ const Reading = () => {
 
   // Speech Recognition Hook
   const { 
+    state: recognitionState,
     isListening, 
     isSupported: isRecognitionSupported,
     hasPermission,
@@ -90,9 +168,11 @@ const Reading = () => {
   } = useSpeechRecognition({
     language: "pt-BR",
     continuous: true,
-    onResult: (transcript) => {
+    expectedWords: words,
+    currentWordIndex,
+    onResult: (transcript, alternatives) => {
       console.log("Heard:", transcript);
-      processSpokenWords(transcript);
+      processSpokenWords(alternatives.length > 0 ? alternatives : [{ transcript, confidence: 1 }]);
     },
     onError: (error) => {
       if (error !== "no-speech") {
@@ -105,6 +185,19 @@ const Reading = () => {
     },
   });
 
+  // Audio of the reading, kept with the session for the adults to hear
+  const { stopRecording } = useSessionRecorder(isListening);
+
+  // The recording is stored with a saved session and dropped otherwise
+  const endRecording = useCallback(
+    (session: ReadingSession, keep: boolean) => {
+      stopRecording().then((recording) => {
+        if (keep && recording) saveSessionAudio(session.id, recording);
+      });
+    },
+    [stopRecording]
+  );
+
   // Speech Synthesis Hook
   const {
     isSpeaking,
@@ -118,142 +211,140 @@ const Reading = () => {
     pitch: 1.1,
   });
 
-  // Process spoken words and match against expected
-  const processSpokenWords = useCallback((transcript: string) => {
+  // Process spoken words: align the transcript with the upcoming words so a
+  // filler word or a skipped word does not stall the reading. Every confident
+  // alternative is tried, and the one that matches the most words is kept.
+  const processSpokenWords = useCallback((alternatives: TranscriptAlternative[]) => {
     // Safety check: don't process if not listening anymore
     if (!isListening) {
       console.log("⚠️ Ignoring transcript - not listening");
       return;
     }
     
-    const spokenWords = extractWords(transcript);
+    if (currentWordIndex >= words.length) return;
+    
+    const { transcript, spokenTimings, ...alignment } = alignAlternatives(
+      alternatives,
+      words,
+      currentWordIndex,
+      matchingOptions
+    );
+    const { operations, nextIndex } = alignment;
+    if (operations.length === 0) return;
+    sessionRef.current = recordTranscript(
+      sessionRef.current,
+      transcript,
+      alignment,
+      currentWordIndex,
+      spokenTimings
+    );
     
     console.log("\n=== Processing transcript:", transcript);
-    console.log("=== Extracted words:", spokenWords);
-    console.log("=== Starting at index:", currentWordIndex);
-    console.log("=== Expected word:", currentWordIndex < words.length ? words[currentWordIndex] : "NONE (finished)");
+    console.log("=== Starting at index:", currentWordIndex, "→ next:", nextIndex);
+    operations.forEach((operation) => {
+      const expected = "expectedIndex" in operation ? words[operation.expectedIndex] : "-";
+      const spoken = "spoken" in operation ? operation.spoken : "-";
+      console.log(`  ${operation.type}: spoken="${spoken}" expected="${expected}"`);
+    });
     
-    // IMPORTANT: Reset "incorrect" back to "current" for retry
-    // This allows the user to try again after making a mistake
     setWordStatuses(prev => {
       const newStatuses = [...prev];
-      if (newStatuses[currentWordIndex] === "incorrect") {
-        console.log(`🔄 Resetting word ${currentWordIndex} from "incorrect" to "current" for retry`);
-        newStatuses[currentWordIndex] = "current";
+      operations.forEach((operation) => {
+        if (operation.type === "insertion") return;
+        const index = operation.expectedIndex;
+        // Words misread or skipped on the way stay marked; a miss at the cursor
+        // keeps the cursor there so the child can try that word again
+        newStatuses[index] = operation.type === "match" ? "correct" : "incorrect";
+      });
+      if (nextIndex < words.length && newStatuses[nextIndex] !== "incorrect") {
+        newStatuses[nextIndex] = "current";
       }
       return newStatuses;
     });
     
-    // Use local variable to track index during batch processing
-    // This fixes the bug where currentWordIndex doesn't update during forEach
-    let localWordIndex = currentWordIndex;
-    
-    spokenWords.forEach((spokenWord, idx) => {
-      if (localWordIndex >= words.length) return;
-      
-      const expectedWord = words[localWordIndex];
-      console.log(`\n[Word ${idx}] Checking: spoken="${spokenWord}" vs expected="${expectedWord}" (index ${localWordIndex})`);
-      
-      const isMatch = wordsMatch(spokenWord, expectedWord);
-      
-      console.log(`  Result: ${isMatch ? "✓ MATCH" : "✗ NO MATCH"}`);
-      
-      // CRITICAL: Capture the index value BEFORE any state updates
-      const indexToMark = localWordIndex;
-      
-      if (isMatch) {
-        console.log(`\n🎉 CORRECT! Word "${words[indexToMark]}" at index ${indexToMark}`);
-        
-        // Mark current word as correct and advance
-        setWordStatuses(prev => {
-          const newStatuses = [...prev];
-          newStatuses[indexToMark] = "correct";
-          if (indexToMark + 1 < words.length) {
-            newStatuses[indexToMark + 1] = "current";
-          }
-          return newStatuses;
-        });
-        
-        localWordIndex++; // Advance to next word
-        
-        // Show mini celebration every 5 words
-        if (localWordIndex % 5 === 0) {
-          setShowCelebration(true);
-          clearTimeout(celebrationTimeoutRef.current);
-          celebrationTimeoutRef.current = setTimeout(() => {
-            setShowCelebration(false);
-          }, 1000);
-        }
-      } else {
-        // Word is incorrect - mark it but DON'T advance index
-        console.log(`\n❌ INCORRECT! Heard "${spokenWord}" but expected "${expectedWord}" at index ${indexToMark}`);
-        console.log(`   User needs to say "${expectedWord}" correctly to proceed`);
-        
-        setWordStatuses(prev => {
-          const newStatuses = [...prev];
-          newStatuses[indexToMark] = "incorrect";
-          return newStatuses;
-        });
-        
-        // DON'T increment localWordIndex - user must say the correct word
-        // The index stays at the current word until they get it right
-        
-        // Break out of forEach - don't process remaining words if we hit an error
-        // This prevents multiple incorrect markings in one go
-        return;
+    if (nextIndex !== currentWordIndex) {
+      // Show mini celebration every time a multiple of 5 words is passed
+      if (Math.floor(nextIndex / 5) > Math.floor(currentWordIndex / 5)) {
+        setShowCelebration(true);
+        clearTimeout(celebrationTimeoutRef.current);
+        celebrationTimeoutRef.current = setTimeout(() => {
+          setShowCelebration(false);
+        }, 1000);
       }
-    });
-    
-    // Update state with final index after processing all words
-    if (localWordIndex !== currentWordIndex) {
-      console.log(`📊 Updating currentWordIndex: ${currentWordIndex} → ${localWordIndex}`);
-      setCurrentWordIndex(localWordIndex);
-    } else {
-      console.log(`📊 Index unchanged: ${currentWordIndex}`);
+      setCurrentWordIndex(nextIndex);
     }
-  }, [currentWordIndex, words, isListening]);
+  }, [currentWordIndex, words, isListening, matchingOptions]);
 
   // Handle mic toggle
   const handleMicToggle = useCallback(() => {
-    if (isListening) {
+    // Starting or waiting for permission can be cancelled too
+    if (!isStoppedState(recognitionState)) {
       console.log("🛑 Stopping listening...");
       stopListening();
     } else {
-      console.log("\n🔄🔄🔄 RESETTING READING SESSION 🔄🔄🔄");
-      console.log("  Setting currentWordIndex: 0");
-      console.log("  Resetting all wordStatuses to pending (except first)");
-      // Reset everything for a fresh start
-      setCurrentWordIndex(0);
-      setWordStatuses(words.map((_, i) => (i === 0 ? "current" : "pending")));
+      // Carry on from the current word, the restart button starts over
+      console.log(`🎤 Starting listening at word ${currentWordIndex}...`);
+      setPageIndex(findPageIndex(pages, currentWordIndex));
       resetTranscript();
-      console.log("  Starting listening...");
       startListening();
-      console.log("🔄🔄🔄🔄🔄🔄🔄🔄🔄🔄🔄🔄🔄🔄🔄\n");
     }
-  }, [isListening, startListening, stopListening, resetTranscript, words]);
+  }, [recognitionState, startListening, stopListening, resetTranscript, currentWordIndex, pages]);
 
-  // Handle speaker - read current sentence aloud
+  // Handle speaker - read the visible page aloud
   const handleSpeakerToggle = useCallback(() => {
     if (isSpeaking) {
       stopSpeaking();
     } else {
-      speakSentence(story.text);
+      speakSentence(page.text);
     }
-  }, [isSpeaking, stopSpeaking, speakSentence, story.text]);
+  }, [isSpeaking, stopSpeaking, speakSentence, page.text]);
+
+  // Page-turn controls let the child look back or peek ahead without losing their place
+  const handlePreviousPage = useCallback(() => {
+    stopSpeaking();
+    setPageIndex((index) => Math.max(0, index - 1));
+  }, [stopSpeaking]);
 
-  // Handle word click - read that word
+  const handleNextPage = useCallback(() => {
+    stopSpeaking();
+    setPageIndex((index) => Math.min(pages.length - 1, index + 1));
+  }, [stopSpeaking, pages.length]);
+
+  // Handle word click - read that word. Hearing the word the child is stuck
+  // on counts as help in the running record.
   const handleWordClick = useCallback((index: number) => {
     speakWord(words[index]);
+    if (index === currentWordIndex) {
+      sessionRef.current = recordTeacherAssist(sessionRef.current, index);
+    }
+  }, [words, speakWord, currentWordIndex]);
+
+  // Escalating hints while the child is stuck on the current word; each one
+  // is kept in the running record
+  const handleHint = useCallback((level: HintLevel, index: number) => {
+    console.log(`💡 Hint "${level}" for word ${index}: ${words[index]}`);
+    sessionRef.current = recordHint(sessionRef.current, index, level);
+    if (level === "spoken") speakWord(words[index]);
   }, [words, speakWord]);
 
+  const hint = useHesitationMonitor({
+    wordIndex: currentWordIndex,
+    active: isListening && !isComplete,
+    onHint: handleHint,
+  });
+
   // Restart reading
   const handleRestart = useCallback(() => {
     stopListening();
     stopSpeaking();
     setCurrentWordIndex(0);
-    setWordStatuses(words.map((_, i) => (i === 0 ? "current" : "pending")));
+    setPageIndex(0);
+    setWordStatuses(initialWordStatuses(words, 0));
+    endRecording(sessionRef.current, savePartialSession(sessionRef.current));
+    sessionRef.current = createSession(story.id, story.title, words, 0);
+    setFinishedSessionId(undefined);
     resetTranscript();
-  }, [words, stopListening, stopSpeaking, resetTranscript]);
+  }, [words, story.id, story.title, stopListening, stopSpeaking, resetTranscript, endRecording]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -264,6 +355,16 @@ const Reading = () => {
     };
   }, [stopListening, stopSpeaking]);
 
+  // Keep the record of a story left halfway
+  useEffect(() => {
+    return () => endRecording(sessionRef.current, savePartialSession(sessionRef.current));
+  }, [endRecording]);
+
+  // Time with the microphone off does not count toward the reading pace
+  useEffect(() => {
+    sessionRef.current = recordListening(sessionRef.current, isListening);
+  }, [isListening]);
+
   // Auto-stop when complete
   useEffect(() => {
     if (isComplete && isListening) {
@@ -271,6 +372,32 @@ const Reading = () => {
     }
   }, [isComplete, isListening, stopListening]);
 
+  // Remember when the story was opened, how far it got and when it was finished
+  useEffect(() => {
+    markStoryRead(story.id);
+    if (startWordIndex > 0) toast("Continuando de onde você parou 📖", { id: "resume-reading" });
+  }, [story.id, startWordIndex]);
+
+  useEffect(() => {
+    if (!isComplete) saveReadingPosition(story.id, currentWordIndex, words.length);
+  }, [currentWordIndex, isComplete, story.id, words.length]);
+
+  useEffect(() => {
+    if (!isComplete || sessionRef.current.endedAt) return;
+    const session = finishSession(sessionRef.current, words.length);
+    sessionRef.current = session;
+    saveSession(session);
+    endRecording(session, true);
+    setFinishedSessionId(session.id);
+    markStoryCompleted(story.id, summarizeSession(session).accuracy);
+  }, [isComplete, story.id, words.length, endRecording]);
+
+  // Words correct per minute, pace and pauses of the finished reading
+  const fluency = useMemo(
+    () => (finishedSessionId ? summarizeFluency(sessionRef.current, sentenceOfWord) : undefined),
+    [finishedSessionId, sentenceOfWord]
+  );
+
   return (
     <div className="min-h-screen bg-background flex flex-col">
       {/* Safe area spacer */}
@@ -302,13 +429,16 @@ const Reading = () => {
       {/* Story title bar */}
       <div className="px-4 py-3 bg-muted/50">
         <div className="flex items-center gap-3">
-          <span className="text-2xl">{story.emoji}</span>
+          <span className="text-2xl">{story.metadata.emoji}</span>
           <div className="flex-1">
             <h1 className="font-display font-bold text-lg">{story.title}</h1>
-            <p className="text-xs text-muted-foreground">
-              {isListening 
-                ? "🎤 Estou ouvindo você ler..." 
-                : "Toque no microfone e leia em voz alta!"}
+            <p
+              className={cn(
+                "text-xs",
+                recognitionState.status === "failed" ? "text-destructive" : "text-muted-foreground"
+              )}
+            >
+              {recognitionStatusText(recognitionState)}
             </p>
             {/* Show what Safari is hearing in real-time */}
             {interimTranscript && (
@@ -318,6 +448,8 @@ const Reading = () => {
               </div>
             )}
           </div>
+          <SessionsSheet storyId={story.id} />
+          <StrictnessSheet storyId={story.id} />
         </div>
       </div>
 
@@ -365,17 +497,65 @@ const Reading = () => {
           </div>
         )}
 
+        {page.illustration && (
+          <div className="mb-6 flex justify-center">
+            {page.illustration.src ? (
+              <img
+                src={page.illustration.src}
+                alt={page.illustration.alt ?? ""}
+                className="max-h-48 rounded-3xl shadow-soft"
+              />
+            ) : (
+              <span className="text-6xl" role="img" aria-label={page.illustration.alt}>
+                {page.illustration.emoji}
+              </span>
+            )}
+          </div>
+        )}
+
         <div className="reading-text leading-loose">
-          {words.map((word, index) => (
-            <ReadingWord
-              key={`${word}-${index}`}
-              word={word}
-              status={wordStatuses[index]}
-              onClick={() => handleWordClick(index)}
-            />
-          ))}
+          {page.tokens.map((token, offset) => {
+            const index = page.startIndex + offset;
+            return (
+              <ReadingWord
+                key={`${token.text}-${index}`}
+                word={token.text}
+                leading={token.leading}
+                trailing={token.trailing}
+                status={wordStatuses[index]}
+                hint={index === currentWordIndex ? hint : undefined}
+                syllables={index === currentWordIndex && hint ? syllablesOf(token.text) : undefined}
+                onClick={() => handleWordClick(index)}
+              />
+            );
+          })}
         </div>
 
+        {/* Page-turn controls */}
+        {pages.length > 1 && (
+          <div className="mt-8 flex items-center justify-between">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handlePreviousPage}
+              disabled={pageIndex === 0}
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </Button>
+            <span className="text-sm font-semibold text-muted-foreground">
+              Página {pageIndex + 1} de {pages.length}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handleNextPage}
+              disabled={pageIndex === pages.length - 1}
+            >
+              <ChevronRight className="w-5 h-5" />
+            </Button>
+          </div>
+        )}
+
         {/* Completion celebration */}
         {isComplete && (
           <div className="mt-12 text-center animate-scale-in">
@@ -386,6 +566,7 @@ const Reading = () => {
             <p className="text-muted-foreground mb-6">
               Você leu a história toda!
             </p>
+            {fluency && <FluencyReport summary={fluency} words={words} />}
             <div className="flex gap-3 justify-center">
               <Button variant="outline" onClick={handleRestart}>
                 <RotateCcw className="w-4 h-4" />
@@ -396,6 +577,16 @@ const Reading = () => {
                 <ChevronRight className="w-4 h-4" />
               </Button>
             </div>
+            {finishedSessionId && (
+              <Button
+                variant="ghost"
+                className="mt-3 text-muted-foreground"
+                onClick={() => navigate(`/records/${finishedSessionId}`)}
+              >
+                <ClipboardList className="w-4 h-4" />
+                Ver Registro de Leitura
+              </Button>
+            )}
           </div>
         )}
       </main>
@@ -417,6 +608,12 @@ const Reading = () => {
               type="mic"
               size="xl"
               isActive={isListening}
+              isLoading={
+                recognitionState.status === "requesting-permission" ||
+                recognitionState.status === "starting" ||
+                (recognitionState.status === "restarting" && recognitionState.attempt > 0)
+              }
+              hasError={recognitionState.status === "failed"}
               onClick={handleMicToggle}
             />
 
@@ -435,9 +632,13 @@ const Reading = () => {
           <p className="text-center text-xs text-muted-foreground mt-3">
             {isListening
               ? "🎤 Continue lendo! Toque nas palavras para ouvir."
-              : isSpeaking 
-                ? "🔊 Ouça a história..."
-                : "Toque 🎤 para ler ou 🔊 para ouvir"}
+              : !isStoppedState(recognitionState)
+                ? "Só um instante..."
+                : recognitionState.status === "failed"
+                  ? "Toque 🎤 para tentar de novo"
+                  : isSpeaking 
+                    ? "🔊 Ouça a história..."
+                    : "Toque 🎤 para ler ou 🔊 para ouvir"}
           </p>
         </div>
       )}
@@ -448,4 +649,11 @@ const Reading = () => {
   );
 };
 
+// A fresh reader for every story, so going from one story to the next does not
+// keep the page, progress or session of the one before
+const Reading = () => {
+  const { id } = useParams();
+  return <StoryReader key={id} id={id} />;
+};
+
 export default Reading;
@@ -0,0 +1,228 @@
+import { useMemo } from "react";
+import { Navigate, useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { SessionPlayback } from "@/components/SessionPlayback";
+import { cn } from "@/lib/utils";
+import { getSessionById } from "@/lib/readingSessions";
+import { MISCUE_LABELS, summarizeSession, type Miscue, type MiscueType } from "@/lib/runningRecord";
+import { HINT_LABELS, HINT_LEVELS } from "@/lib/hesitation";
+
+// Marks used on paper running records
+const MISCUE_MARKS: Record<MiscueType, string> = {
+  substitution: "",
+  omission: "—",
+  insertion: "^",
+  repetition: "R",
+  "self-correction": "AC",
+  "teacher-assisted": "A",
+};
+
+// Reading levels teachers draw from the accuracy rate
+const accuracyLevel = (accuracy: number) => {
+  if (accuracy >= 0.95) return { label: "Independente", color: "text-success" };
+  if (accuracy >= 0.9) return { label: "Instrucional", color: "text-warning-foreground" };
+  return { label: "Difícil", color: "text-destructive" };
+};
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const RecordedWord = ({ word, miscues }: { word: string; miscues: Miscue[] }) => {
+  const spoken = miscues.find((miscue) => miscue.type === "substitution" || miscue.type === "self-correction");
+  const insertions = miscues.filter((miscue) => miscue.type === "insertion");
+  const marks = miscues
+    .filter((miscue) => miscue.type !== "insertion" && MISCUE_MARKS[miscue.type])
+    .map((miscue) => MISCUE_MARKS[miscue.type]);
+  const omitted = miscues.some((miscue) => miscue.type === "omission");
+  const hasError = miscues.some((miscue) =>
+    ["substitution", "omission", "teacher-assisted"].includes(miscue.type)
+  );
+
+  return (
+    <>
+      {insertions.map((insertion, index) => (
+        <span key={index} className="inline-flex flex-col items-center mx-1 my-2 align-bottom">
+          <span className="text-xs font-semibold text-accent">{insertion.spoken}</span>
+          <span className="text-accent">^</span>
+        </span>
+      ))}
+      <span className="inline-flex flex-col items-center mx-1 my-2 align-bottom">
+        <span className="text-xs font-semibold text-destructive min-h-4">
+          {spoken?.spoken}
+          {marks.length > 0 && <span className="ml-1 text-primary">{marks.join(" ")}</span>}
+        </span>
+        <span
+          className={cn(
+            "text-lg",
+            hasError && "text-destructive font-bold",
+            omitted && "line-through",
+            !hasError && miscues.length === 0 && "text-foreground"
+          )}
+        >
+          {word}
+        </span>
+      </span>
+    </>
+  );
+};
+
+const RunningRecord = () => {
+  const navigate = useNavigate();
+  const { id } = useParams();
+  const session = useMemo(() => (id ? getSessionById(id) : undefined), [id]);
+
+  if (!session) {
+    return <Navigate to="/stories" replace />;
+  }
+
+  const summary = summarizeSession(session);
+  const level = accuracyLevel(summary.accuracy);
+  const readWords = session.words.slice(session.startWordIndex, session.endWordIndex);
+
+  // Hints given on each word the child got stuck on, in reading order
+  const hintedWords = [...new Set(session.hints.map((hint) => hint.wordIndex))]
+    .sort((a, b) => a - b)
+    .map((wordIndex) => {
+      const levels = new Set(session.hints.filter((hint) => hint.wordIndex === wordIndex).map((hint) => hint.level));
+      return { wordIndex, levels: HINT_LEVELS.filter((level) => levels.has(level)) };
+    });
+
+  const stats = [
+    { label: "Precisão", value: formatPercent(summary.accuracy), detail: level.label, color: level.color },
+    {
+      label: "Autocorreção",
+      value: summary.selfCorrectionRate ? `1:${summary.selfCorrectionRate}` : "—",
+      detail: `${summary.selfCorrections} autocorreções`,
+    },
+    { label: "Erros", value: String(summary.errors), detail: `${summary.repetitions} repetições` },
+    { label: "Palavras lidas", value: String(summary.wordsRead), detail: `de ${session.words.length}` },
+  ];
+
+  return (
+    <div className="min-h-screen bg-background print:bg-white">
+      {/* Safe area spacer */}
+      <div className="h-safe-top print:hidden" />
+
+      {/* Header */}
+      <header className="sticky top-0 z-50 bg-background/80 backdrop-blur-lg border-b border-border print:hidden">
+        <div className="flex items-center justify-between px-4 py-3">
+          <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+
+          <h1 className="font-display font-bold text-xl">Registro de Leitura</h1>
+
+          <Button variant="ghost" size="icon" onClick={() => window.print()} aria-label="Imprimir">
+            <Printer className="w-5 h-5" />
+          </Button>
+        </div>
+      </header>
+
+      {/* Content */}
+      <main className="px-4 py-6 space-y-6">
+        <section>
+          <h2 className="font-display font-bold text-2xl">{session.storyTitle}</h2>
+          <p className="text-sm text-muted-foreground">
+            {new Date(session.startedAt).toLocaleString("pt-BR", { dateStyle: "long", timeStyle: "short" })}
+            {!session.endedAt && " · leitura interrompida"}
+          </p>
+        </section>
+
+        {/* Summary */}
+        <section className="grid grid-cols-2 gap-3">
+          {stats.map((stat) => (
+            <div key={stat.label} className="p-4 rounded-3xl bg-card shadow-card print:shadow-none print:border">
+              <p className="text-xs font-semibold text-muted-foreground">{stat.label}</p>
+              <p className={cn("font-display font-bold text-2xl", stat.color)}>{stat.value}</p>
+              <p className="text-xs text-muted-foreground">{stat.detail}</p>
+            </div>
+          ))}
+        </section>
+
+        {/* Marked text */}
+        <section>
+          <h3 className="font-display font-bold text-lg mb-2">Texto</h3>
+          <div className="p-4 rounded-3xl bg-card shadow-card leading-loose print:shadow-none print:border">
+            {readWords.map((word, offset) => {
+              const wordIndex = session.startWordIndex + offset;
+              return (
+                <RecordedWord
+                  key={wordIndex}
+                  word={word}
+                  miscues={session.miscues.filter((miscue) => miscue.wordIndex === wordIndex)}
+                />
+              );
+            })}
+          </div>
+          <p className="mt-2 text-xs text-muted-foreground">
+            Palavra lida acima da palavra do texto · — {MISCUE_LABELS.omission} · ^ {MISCUE_LABELS.insertion} · R{" "}
+            {MISCUE_LABELS.repetition} · AC {MISCUE_LABELS["self-correction"]} · A {MISCUE_LABELS["teacher-assisted"]}
+          </p>
+        </section>
+
+        {/* Recording */}
+        <section className="print:hidden">
+          <h3 className="font-display font-bold text-lg mb-2">Ouvir a leitura</h3>
+          <SessionPlayback session={session} />
+        </section>
+
+        {/* Substitutions */}
+        <section>
+          <h3 className="font-display font-bold text-lg mb-2">Trocas</h3>
+          {summary.substitutions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nenhuma palavra trocada. 🎉</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b border-border">
+                  <th className="py-2 font-semibold">Texto</th>
+                  <th className="py-2 font-semibold">Lido</th>
+                  <th className="py-2 font-semibold">Autocorrigida</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.substitutions.map((substitution) => (
+                  <tr key={substitution.wordIndex} className="border-b border-border">
+                    <td className="py-2 font-semibold">{substitution.expected}</td>
+                    <td className="py-2 text-destructive">{substitution.spoken}</td>
+                    <td className="py-2">{substitution.selfCorrected ? "Sim" : "Não"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+
+        {/* Hints */}
+        <section>
+          <h3 className="font-display font-bold text-lg mb-2">Dicas</h3>
+          {hintedWords.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nenhuma dica foi necessária.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b border-border">
+                  <th className="py-2 font-semibold">Palavra</th>
+                  <th className="py-2 font-semibold">Dicas dadas</th>
+                </tr>
+              </thead>
+              <tbody>
+                {hintedWords.map(({ wordIndex, levels }) => (
+                  <tr key={wordIndex} className="border-b border-border">
+                    <td className="py-2 font-semibold">{session.words[wordIndex]}</td>
+                    <td className="py-2">{levels.map((level) => HINT_LABELS[level]).join(" → ")}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+      </main>
+
+      {/* Safe area spacer */}
+      <div className="h-safe-bottom pb-6 print:hidden" />
+    </div>
+  );
+};
+
+export default RunningRecord;
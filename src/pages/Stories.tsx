@@ -1,59 +1,51 @@
-import { useNavigate } from "react-router-dom";
+import { useMemo } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { StoryCard } from "@/components/StoryCard";
-import { ArrowLeft, Plus, Search } from "lucide-react";
+import { Mascot } from "@/components/Mascot";
+import { StoryFiltersSheet } from "@/components/StoryFiltersSheet";
+import { ArrowLeft, Plus, Search, X } from "lucide-react";
 import { Input } from "@/components/ui/input";
-
-const SAMPLE_STORIES = [
-  {
-    id: "1",
-    title: "O Gato de Botas",
-    description: "Um gatinho esperto ajuda seu dono a se tornar um príncipe.",
-    difficulty: "easy" as const,
-    duration: "3 min",
-    imageEmoji: "🐱",
-    completed: true,
-  },
-  {
-    id: "2",
-    title: "A Tartaruga e a Lebre",
-    description: "Quem será mais rápido? Uma história sobre persistência.",
-    difficulty: "easy" as const,
-    duration: "2 min",
-    imageEmoji: "🐢",
-    completed: false,
-  },
-  {
-    id: "3",
-    title: "João e o Pé de Feijão",
-    description: "Uma aventura mágica nas nuvens com gigantes e tesouros.",
-    difficulty: "medium" as const,
-    duration: "5 min",
-    imageEmoji: "🌱",
-    completed: false,
-  },
-  {
-    id: "4",
-    title: "A Pequena Sereia",
-    description: "Uma sereia sonha em conhecer o mundo dos humanos.",
-    difficulty: "medium" as const,
-    duration: "6 min",
-    imageEmoji: "🧜‍♀️",
-    completed: false,
-  },
-  {
-    id: "5",
-    title: "O Patinho Feio",
-    description: "Um patinho diferente descobre sua verdadeira beleza.",
-    difficulty: "hard" as const,
-    duration: "7 min",
-    imageEmoji: "🦢",
-    completed: false,
-  },
-];
+import { cn } from "@/lib/utils";
+import { getStoryById, isCustomStory } from "@/lib/storyRepository";
+import { useStories } from "@/hooks/useStories";
+import { useReadingProgress } from "@/hooks/useReadingProgress";
+import { findStoryToContinue } from "@/lib/readingProgress";
+import { analyzeStory, formatReadingTime } from "@/lib/readability";
+import { storyTagLabel } from "@/lib/story";
+import {
+  catalogFiltersToParams,
+  collectTags,
+  countSheetFilters,
+  parseCatalogFilters,
+  queryCatalog,
+  type CatalogFilters,
+} from "@/lib/storyCatalog";
 
 const Stories = () => {
   const navigate = useNavigate();
+  const stories = useStories();
+  const progress = useReadingProgress();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Query and filters live in the URL so they survive going back from a story
+  const filters = useMemo(() => parseCatalogFilters(searchParams), [searchParams]);
+  const query = filters.query;
+  const isSearching = query.trim().length > 0;
+  const isFiltering = isSearching || filters.tag !== undefined || countSheetFilters(filters) > 0;
+  const results = useMemo(() => queryCatalog(stories, filters, progress), [stories, filters, progress]);
+  const tags = useMemo(() => collectTags(stories), [stories]);
+
+  // The story still in the catalog that was left halfway most recently
+  const continueStoryId = findStoryToContinue(progress, (storyId) => getStoryById(storyId) !== undefined);
+  const continueStory = continueStoryId ? getStoryById(continueStoryId) : undefined;
+  const continueProgress = continueStoryId ? progress[continueStoryId] : undefined;
+
+  const updateFilters = (changes: Partial<CatalogFilters>) => {
+    setSearchParams(catalogFiltersToParams({ ...filters, ...changes }), { replace: true });
+  };
+
+  const setQuery = (value: string) => updateFilters({ query: value });
 
   return (
     <div className="min-h-screen bg-background">
@@ -77,56 +69,126 @@ const Stories = () => {
             variant="ghost"
             size="icon"
             className="text-primary"
+            onClick={() => navigate("/stories/new")}
           >
             <Plus className="w-5 h-5" />
           </Button>
         </div>
 
         {/* Search bar */}
-        <div className="px-4 pb-3">
-          <div className="relative">
+        <div className="px-4 pb-3 flex items-center gap-2">
+          <div className="relative flex-1">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
             <Input
+              type="search"
               placeholder="Buscar histórias..."
-              className="pl-10 bg-muted border-none rounded-xl h-11"
+              className="pl-10 pr-10 bg-muted border-none rounded-xl h-11"
+              value={query}
+              onChange={(event) => setQuery(event.target.value)}
             />
+            {query && (
+              <button
+                type="button"
+                onClick={() => setQuery("")}
+                aria-label="Limpar busca"
+                className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
           </div>
+          <StoryFiltersSheet filters={filters} onChange={updateFilters} />
         </div>
+
+        {/* Tags */}
+        {tags.length > 0 && (
+          <div className="px-4 pb-3 flex gap-2 overflow-x-auto">
+            {[undefined, ...tags].map((tag) => (
+              <button
+                key={tag ?? "all"}
+                type="button"
+                onClick={() => updateFilters({ tag })}
+                className={cn(
+                  "shrink-0 px-3 py-1.5 rounded-full text-sm font-semibold transition-colors",
+                  filters.tag === tag
+                    ? "bg-primary text-primary-foreground"
+                    : "bg-muted text-muted-foreground hover:text-foreground"
+                )}
+              >
+                {tag ? storyTagLabel(tag) : "Todas"}
+              </button>
+            ))}
+          </div>
+        )}
       </header>
 
       {/* Content */}
       <main className="px-4 py-6 space-y-6">
         {/* Section: Continue Reading */}
-        <section>
-          <h2 className="font-display font-bold text-lg mb-3 flex items-center gap-2">
-            <span>📖</span> Continue Lendo
-          </h2>
-          <StoryCard
-            title="A Tartaruga e a Lebre"
-            description="Quem será mais rápido? Uma história sobre persistência."
-            difficulty="easy"
-            duration="2 min"
-            imageEmoji="🐢"
-            onClick={() => navigate("/read/2")}
-          />
-        </section>
+        {!isFiltering && continueStory && continueProgress && (
+          <section>
+            <h2 className="font-display font-bold text-lg mb-3 flex items-center gap-2">
+              <span>📖</span> Continue Lendo
+            </h2>
+            <StoryCard
+              title={continueStory.title}
+              description={continueStory.description}
+              difficulty={continueStory.difficulty}
+              duration={formatReadingTime(analyzeStory(continueStory).readingMinutes)}
+              wordCount={analyzeStory(continueStory).wordCount}
+              imageEmoji={continueStory.metadata.emoji}
+              completed={continueProgress.completed}
+              progress={(continueProgress.lastWordIndex / continueProgress.wordCount) * 100}
+              onClick={() => navigate(`/read/${continueStory.id}`)}
+            />
+          </section>
+        )}
 
-        {/* Section: All Stories */}
+        {/* Section: All Stories or search results */}
         <section>
           <h2 className="font-display font-bold text-lg mb-3 flex items-center gap-2">
-            <span>✨</span> Todas as Histórias
+            {isFiltering ? (
+              <>
+                <span>🔎</span> Resultados
+              </>
+            ) : (
+              <>
+                <span>✨</span> Todas as Histórias
+              </>
+            )}
           </h2>
+
+          {/* Empty state */}
+          {results.length === 0 && (
+            <div className="py-8 flex flex-col items-center text-center">
+              <Mascot size="md" mood="thinking" className="mb-4" />
+              <p className="font-display font-bold text-lg">Nenhuma história encontrada</p>
+              <p className="text-sm text-muted-foreground mb-4">
+                {isSearching
+                  ? `Não achamos nada para "${query.trim()}". Tente outra palavra!`
+                  : "Nenhuma história combina com estes filtros."}
+              </p>
+              <Button variant="outline" onClick={() => setSearchParams({}, { replace: true })}>
+                Ver todas as histórias
+              </Button>
+            </div>
+          )}
+
           <div className="space-y-3">
-            {SAMPLE_STORIES.map((story) => (
+            {results.map(({ story, titleMatches, descriptionMatches, snippet }) => (
               <StoryCard
                 key={story.id}
                 title={story.title}
-                description={story.description}
+                description={snippet?.text ?? story.description}
+                titleHighlights={titleMatches}
+                descriptionHighlights={snippet?.matches ?? descriptionMatches}
                 difficulty={story.difficulty}
-                duration={story.duration}
-                imageEmoji={story.imageEmoji}
-                completed={story.completed}
+                duration={formatReadingTime(analyzeStory(story).readingMinutes)}
+                wordCount={analyzeStory(story).wordCount}
+                imageEmoji={story.metadata.emoji}
+                completed={progress[story.id]?.completed}
                 onClick={() => navigate(`/read/${story.id}`)}
+                onEdit={isCustomStory(story.id) ? () => navigate(`/stories/${story.id}/edit`) : undefined}
               />
             ))}
           </div>
@@ -138,7 +200,7 @@ const Stories = () => {
             variant="outline"
             size="lg"
             className="w-full border-dashed border-2"
-            onClick={() => navigate("/stories")}
+            onClick={() => navigate("/stories/generate")}
           >
             <Plus className="w-5 h-5" />
             Criar Nova História com IA
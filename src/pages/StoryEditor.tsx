@@ -0,0 +1,342 @@
+import { useMemo } from "react";
+import { Navigate, useNavigate, useParams } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { ArrowLeft, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { cn } from "@/lib/utils";
+import { STORY_TAG_LABELS, storyTagLabel, type Story, type StoryDifficulty, type StoryPage } from "@/lib/story";
+import { pagesToText, StoryFormatError } from "@/lib/storyFormat";
+import { analyzeReadability, formatReadingTime } from "@/lib/readability";
+import {
+  createCustomStoryId,
+  deleteStory,
+  getStoryById,
+  isCustomStory,
+  saveStory,
+} from "@/lib/storyRepository";
+
+const COVER_EMOJIS = ["📖", "🐶", "🐱", "🐻", "🦊", "🐸", "🦄", "🐉", "🚀", "🌳", "🏰", "🌈"];
+
+const DIFFICULTY_LABELS: Record<StoryDifficulty, string> = {
+  easy: "Fácil",
+  medium: "Médio",
+  hard: "Difícil",
+};
+
+const editorSchema = z.object({
+  title: z.string().trim().min(1, "Dê um título para a história."),
+  description: z.string().trim().min(1, "Conte em uma frase sobre o que é a história."),
+  emoji: z.string().trim().min(1, "Escolha uma capa."),
+  tags: z.array(z.string()),
+  text: z.string().trim().min(1, "Escreva pelo menos uma frase."),
+});
+
+type EditorValues = z.infer<typeof editorSchema>;
+
+// Editor text: one sentence per line, a blank line starts a new page
+const textToPages = (text: string): StoryPage[] =>
+  text
+    .trim()
+    .split(/\n\s*\n/)
+    .map((block) =>
+      block
+        .split("\n")
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0)
+    )
+    .filter((lines) => lines.length > 0)
+    .map((lines) => ({
+      paragraphs: [{ sentences: lines.map((line) => ({ text: line, annotations: [] })) }],
+    }));
+
+const pagesToEditorText = (pages: StoryPage[]): string =>
+  pages
+    .map((page) =>
+      page.paragraphs
+        .flatMap((paragraph) => paragraph.sentences)
+        .map((sentence) => sentence.text)
+        .join("\n")
+    )
+    .join("\n\n");
+
+const StoryEditor = () => {
+  const navigate = useNavigate();
+  const { id } = useParams();
+
+  const existing = useMemo(() => (id && isCustomStory(id) ? getStoryById(id) : undefined), [id]);
+
+  const form = useForm<EditorValues>({
+    resolver: zodResolver(editorSchema),
+    defaultValues: existing
+      ? {
+          title: existing.title,
+          description: existing.description,
+          emoji: existing.metadata.emoji,
+          tags: existing.tags,
+          text: pagesToEditorText(existing.pages),
+        }
+      : { title: "", description: "", emoji: COVER_EMOJIS[0], tags: [], text: "" },
+  });
+
+  // Difficulty and reading time follow the text as it is typed
+  const draftText = form.watch("text");
+  const readability = useMemo(
+    () => analyzeReadability(pagesToText(textToPages(draftText))),
+    [draftText]
+  );
+
+  // Only stories written here can be edited, bundled ones are read-only
+  if (id && !existing) {
+    return <Navigate to="/stories" replace />;
+  }
+
+  const onSubmit = (values: EditorValues) => {
+    const pages = textToPages(values.text);
+    const text = pagesToText(pages);
+    const story: Story = {
+      id: existing?.id ?? createCustomStoryId(),
+      title: values.title.trim(),
+      description: values.description.trim(),
+      locale: "pt-BR",
+      difficulty: analyzeReadability(text).difficulty,
+      tags: values.tags,
+      text,
+      pages,
+      metadata: {
+        ...existing?.metadata,
+        emoji: values.emoji.trim(),
+      },
+    };
+
+    try {
+      const saved = saveStory(story);
+      toast.success("História salva!");
+      navigate(`/read/${saved.id}`);
+    } catch (error) {
+      if (!(error instanceof StoryFormatError)) throw error;
+      console.error(error.message);
+      toast.error("Não foi possível salvar a história. Confira os campos.");
+    }
+  };
+
+  const handleDelete = () => {
+    if (!existing) return;
+    deleteStory(existing.id);
+    toast.success("História apagada.");
+    navigate("/stories");
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Safe area spacer */}
+      <div className="h-safe-top" />
+
+      {/* Header */}
+      <header className="sticky top-0 z-50 bg-background/80 backdrop-blur-lg border-b border-border">
+        <div className="flex items-center justify-between px-4 py-3">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate("/stories")}
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+
+          <h1 className="font-display font-bold text-xl">
+            {existing ? "Editar História" : "Nova História"}
+          </h1>
+
+          {existing ? (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="ghost" size="icon" className="text-destructive">
+                  <Trash2 className="w-5 h-5" />
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Apagar esta história?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    "{existing.title}" será removida deste aparelho.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleDelete}>Apagar</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          ) : (
+            <div className="w-10" />
+          )}
+        </div>
+      </header>
+
+      {/* Content */}
+      <main className="px-4 py-6">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Título</FormLabel>
+                  <FormControl>
+                    <Input placeholder="O Cachorro Aventureiro" className="rounded-xl h-11" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Resumo</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="Um cachorro que descobre um jardim secreto."
+                      className="rounded-xl h-11"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="emoji"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Capa</FormLabel>
+                  <div className="flex flex-wrap gap-2">
+                    {COVER_EMOJIS.map((emoji) => (
+                      <button
+                        key={emoji}
+                        type="button"
+                        onClick={() => field.onChange(emoji)}
+                        className={cn(
+                          "w-12 h-12 rounded-2xl bg-card shadow-soft text-2xl border-2 border-transparent transition-all",
+                          field.value === emoji && "border-primary scale-110"
+                        )}
+                      >
+                        {emoji}
+                      </button>
+                    ))}
+                  </div>
+                  <FormControl>
+                    <Input className="rounded-xl h-11 w-24 text-center text-xl" maxLength={8} {...field} />
+                  </FormControl>
+                  <FormDescription>Escolha um emoji ou digite outro.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="tags"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Temas</FormLabel>
+                  <div className="flex flex-wrap gap-2">
+                    {/* Keep tags the story already has even if they are not in the preset list */}
+                    {[...new Set([...Object.keys(STORY_TAG_LABELS), ...field.value])].map((tag) => {
+                      const selected = field.value.includes(tag);
+                      return (
+                        <button
+                          key={tag}
+                          type="button"
+                          onClick={() =>
+                            field.onChange(
+                              selected ? field.value.filter((value) => value !== tag) : [...field.value, tag]
+                            )
+                          }
+                          className={cn(
+                            "px-3 py-1.5 rounded-full text-sm font-semibold transition-colors",
+                            selected ? "bg-primary text-primary-foreground" : "bg-muted text-muted-foreground"
+                          )}
+                        >
+                          {storyTagLabel(tag)}
+                        </button>
+                      );
+                    })}
+                  </div>
+                  <FormDescription>Os temas ajudam a encontrar a história no catálogo.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="text"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Texto</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder={"Era uma vez um cachorro.\nEle gostava de correr.\n\nUm dia ele achou um jardim."}
+                      className="min-h-[240px] rounded-xl text-base leading-relaxed"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Escreva uma frase por linha. Deixe uma linha em branco para começar uma nova página.
+                  </FormDescription>
+                  {readability.wordCount > 0 && (
+                    <p className="text-xs font-semibold text-muted-foreground">
+                      {DIFFICULTY_LABELS[readability.difficulty]} · {readability.wordCount} palavras ·{" "}
+                      {formatReadingTime(readability.readingMinutes)}
+                    </p>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Button type="submit" size="lg" className="w-full">
+              <Save className="w-5 h-5" />
+              Salvar História
+            </Button>
+          </form>
+        </Form>
+      </main>
+
+      {/* Safe area spacer */}
+      <div className="h-safe-bottom pb-6" />
+    </div>
+  );
+};
+
+export default StoryEditor;
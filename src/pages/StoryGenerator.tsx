@@ -0,0 +1,146 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, BookOpen, Dices, Save } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import type { StoryDifficulty } from "@/lib/story";
+import { generateStory, randomSeed, STORY_THEMES, type StoryTheme } from "@/lib/storyGenerator";
+import { createCustomStoryId, saveStory } from "@/lib/storyRepository";
+import { analyzeStory, formatReadingTime } from "@/lib/readability";
+
+const DIFFICULTIES: { value: StoryDifficulty; label: string }[] = [
+  { value: "easy", label: "Fácil" },
+  { value: "medium", label: "Médio" },
+  { value: "hard", label: "Difícil" },
+];
+
+const StoryGenerator = () => {
+  const navigate = useNavigate();
+  const [theme, setTheme] = useState<StoryTheme>(STORY_THEMES[0].value);
+  const [difficulty, setDifficulty] = useState<StoryDifficulty>("easy");
+  const [seed, setSeed] = useState(randomSeed);
+
+  const story = useMemo(() => generateStory({ theme, difficulty, seed }), [theme, difficulty, seed]);
+  const { wordCount, readingMinutes } = analyzeStory(story);
+
+  // Keep a copy in the catalog so it can be found and edited later
+  const handleSave = () => {
+    const saved = saveStory({ ...story, id: createCustomStoryId() });
+    toast.success("História guardada!");
+    navigate(`/read/${saved.id}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Safe area spacer */}
+      <div className="h-safe-top" />
+
+      {/* Header */}
+      <header className="sticky top-0 z-50 bg-background/80 backdrop-blur-lg border-b border-border">
+        <div className="flex items-center justify-between px-4 py-3">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate("/stories")}
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+
+          <h1 className="font-display font-bold text-xl">Criar História</h1>
+
+          <div className="w-10" />
+        </div>
+      </header>
+
+      {/* Content */}
+      <main className="px-4 py-6 space-y-6">
+        {/* Theme */}
+        <section>
+          <h2 className="font-display font-bold text-lg mb-3">Sobre o que vai ser?</h2>
+          <div className="grid grid-cols-2 gap-3">
+            {STORY_THEMES.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => setTheme(option.value)}
+                className={cn(
+                  "p-4 rounded-3xl bg-card shadow-card border-2 border-transparent text-left transition-all",
+                  theme === option.value && "border-primary"
+                )}
+              >
+                <span className="text-3xl">{option.emoji}</span>
+                <span className="block mt-2 font-display font-bold">{option.label}</span>
+              </button>
+            ))}
+          </div>
+        </section>
+
+        {/* Difficulty */}
+        <section>
+          <h2 className="font-display font-bold text-lg mb-3">Dificuldade</h2>
+          <div className="grid grid-cols-3 gap-2">
+            {DIFFICULTIES.map((option) => (
+              <Button
+                key={option.value}
+                type="button"
+                variant={difficulty === option.value ? "default" : "outline"}
+                onClick={() => setDifficulty(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </section>
+
+        {/* Preview */}
+        <section className="p-5 rounded-3xl bg-card shadow-card">
+          <div className="flex items-center gap-3 mb-3">
+            <span className="text-4xl">{story.metadata.emoji}</span>
+            <div>
+              <h2 className="font-display font-bold text-lg">{story.title}</h2>
+              <p className="text-xs text-muted-foreground">
+                {wordCount} palavras · {formatReadingTime(readingMinutes)}
+              </p>
+            </div>
+          </div>
+          <p className="text-base leading-relaxed">{story.text}</p>
+
+          <div className="mt-4 flex items-center gap-2">
+            <label htmlFor="story-seed" className="text-xs font-semibold text-muted-foreground">
+              Número mágico
+            </label>
+            <Input
+              id="story-seed"
+              type="number"
+              min={0}
+              value={seed}
+              onChange={(event) => setSeed(Math.max(0, Math.floor(Number(event.target.value) || 0)))}
+              className="h-9 w-28 rounded-xl"
+            />
+            <Button variant="ghost" size="icon" onClick={() => setSeed(randomSeed())}>
+              <Dices className="w-5 h-5" />
+            </Button>
+          </div>
+        </section>
+
+        <div className="space-y-3">
+          <Button size="lg" className="w-full" onClick={() => navigate(`/read/${story.id}`)}>
+            <BookOpen className="w-5 h-5" />
+            Ler Agora
+          </Button>
+          <Button variant="outline" size="lg" className="w-full" onClick={handleSave}>
+            <Save className="w-5 h-5" />
+            Guardar nas Minhas Histórias
+          </Button>
+        </div>
+      </main>
+
+      {/* Safe area spacer */}
+      <div className="h-safe-bottom pb-6" />
+    </div>
+  );
+};
+
+export default StoryGenerator;
@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // "web-speech" or "offline"; when unset Web Speech is used if the browser has it and is online
+  readonly VITE_RECOGNITION_ENGINE?: string;
+  // Vosk model archive used by the offline recognition engine
+  readonly VITE_VOSK_MODEL_URL?: string;
+  // "true" lets ?recognitionScript= replace the microphone outside development
+  readonly VITE_SCRIPTED_RECOGNITION?: string;
+}